@@ -0,0 +1,248 @@
+import type { ServiceContext } from "./services/types.js";
+import type { ZulipReactionEvent, ZulipRecipient } from "./zulip.js";
+import { sendMessage, sendTarget } from "./zulip.js";
+import {
+  createWriteApproval,
+  decideWriteApproval,
+  expireStaleWriteApprovals,
+  finishWriteApproval,
+} from "./db.js";
+import { hasCapability } from "./policy.js";
+
+/** A Zulip write action Claude wants to perform. */
+export interface WriteAction {
+  /** Tool name without the MCP prefix, e.g. "zulip_create_channel". */
+  tool: string;
+  /** One-line human description, e.g. "Create channel #ops". */
+  summary: string;
+  params: Record<string, unknown>;
+  /** Performs the action; only called once approved. */
+  execute(): Promise<unknown>;
+}
+
+/** Who asked Claude for the action, and where to post the card. */
+export interface ApprovalRequester {
+  recipient: ZulipRecipient;
+  channel: string;
+  topic: string;
+  userId: number;
+  userName: string;
+}
+
+/** How the waiting request can be stopped, and what it holds meanwhile. */
+export interface ApprovalWait {
+  /** Aborts when the request is cancelled (e.g. :stop_sign:). */
+  signal: AbortSignal;
+  /** Give up the Claude concurrency slot while waiting for a human. */
+  pauseSlot(): void;
+  /** Queue for a slot again; rejects if the request was cancelled. */
+  resumeSlot(): Promise<void>;
+}
+
+type Decision =
+  | { status: "approved" | "rejected"; by: string }
+  | { status: "expired" | "cancelled" };
+
+interface PendingApproval {
+  approvalId: number;
+  requesterId: number;
+  resolve(decision: Decision): void;
+}
+
+/** Confirmation cards awaiting a reaction, keyed by card message id. */
+const pending = new Map<number, PendingApproval>();
+
+const APPROVE_EMOJI = "check";
+const REJECT_EMOJI = "cross_mark";
+
+function renderCard(
+  action: WriteAction,
+  requester: ApprovalRequester,
+  timeoutMs: number,
+  outcome?: string,
+): string {
+  const params = JSON.stringify(action.params, null, 2);
+  // Longer than any backtick run in the params, so they can't close it
+  const longest = Math.max(2, ...(params.match(/`+/g) ?? []).map((m) => m.length));
+  const fence = "`".repeat(longest + 1);
+  const lines = [
+    `🔐 **Confirmation required** — requested by @_**${requester.userName}|${requester.userId}**`,
+    "",
+    `Claude wants to: **${action.summary}**`,
+    "",
+    `${fence}json`,
+    params,
+    fence,
+    "",
+  ];
+  if (outcome) {
+    lines.push(outcome);
+  } else {
+    const minutes = Math.round(timeoutMs / 60_000);
+    lines.push(
+      `React :${APPROVE_EMOJI}: to approve or :${REJECT_EMOJI}: to reject. ` +
+        `Only the requester or an approver can decide; expires in ${minutes} min.`,
+    );
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Post a confirmation card for `action` and wait for the requester (or a
+ * user with `approve_writes`) to react. Executes the action only when
+ * approved, posts the outcome back to the conversation, and records every
+ * step in the `write_approvals` table. Returns what Claude should see.
+ * The request's Claude slot is given up while waiting, and cancelling the
+ * request cancels the approval.
+ */
+export async function requestWriteApproval(
+  ctx: ServiceContext,
+  requester: ApprovalRequester,
+  action: WriteAction,
+  wait: ApprovalWait,
+): Promise<unknown> {
+  const timeoutMs = ctx.config.approvalTimeoutMs;
+  if (wait.signal.aborted) {
+    return { error: "NOT EXECUTED: the request was cancelled." };
+  }
+
+  const res = await ctx.client.messages.send({
+    ...sendTarget(requester.recipient),
+    content: renderCard(action, requester, timeoutMs),
+  });
+  const cardMsgId = res.id;
+
+  const approvalId = createWriteApproval({
+    tool: action.tool,
+    params: JSON.stringify(action.params),
+    requesterName: requester.userName,
+    requesterId: requester.userId,
+    channel: requester.channel,
+    topic: requester.topic,
+    cardMsgId,
+  });
+
+  await ctx.client.reactions
+    .add({ message_id: cardMsgId, emoji_name: APPROVE_EMOJI })
+    .catch(() => {});
+
+  wait.pauseSlot();
+  let decision = await new Promise<Decision>((resolve) => {
+    const finish = (d: Decision) => {
+      clearTimeout(timer);
+      wait.signal.removeEventListener("abort", onAbort);
+      pending.delete(cardMsgId);
+      resolve(d);
+    };
+    const onAbort = () => finish({ status: "cancelled" });
+    const timer = setTimeout(() => finish({ status: "expired" }), timeoutMs);
+    wait.signal.addEventListener("abort", onAbort, { once: true });
+    pending.set(cardMsgId, {
+      approvalId,
+      requesterId: requester.userId,
+      resolve: finish,
+    });
+  });
+  // Rejects once the request is cancelled, e.g. while queued for the slot
+  const resumed = await wait.resumeSlot().then(
+    () => true,
+    () => false,
+  );
+  if (!resumed) decision = { status: "cancelled" };
+
+  const decidedBy = "by" in decision ? decision.by : null;
+  decideWriteApproval(approvalId, decision.status, decidedBy);
+
+  const patchCard = (outcome: string) =>
+    ctx.client
+      .callEndpoint(`/messages/${cardMsgId}`, "PATCH", {
+        content: renderCard(action, requester, timeoutMs, outcome),
+      })
+      .catch(() => {});
+
+  if (decision.status !== "approved") {
+    const outcome =
+      decision.status === "rejected"
+        ? `❌ Rejected by ${decision.by}.`
+        : decision.status === "cancelled"
+          ? "🛑 Cancelled: the request was stopped."
+          : "⌛ Expired without approval.";
+    await patchCard(outcome);
+    return {
+      error: `NOT EXECUTED: the action was ${decision.status}${decidedBy ? ` by ${decidedBy}` : ""}. Do not retry unless the user asks again.`,
+    };
+  }
+
+  await patchCard(`✅ Approved by ${decision.by}.`);
+
+  let result: unknown;
+  try {
+    result = await action.execute();
+  } catch (err) {
+    result = { result: "error", msg: err instanceof Error ? err.message : String(err) };
+  }
+  const ok = (result as { result?: string } | undefined)?.result !== "error";
+  finishWriteApproval(approvalId, ok ? "executed" : "failed", JSON.stringify(result));
+
+  const errorMsg = (result as { msg?: string } | undefined)?.msg;
+  await sendMessage(
+    ctx.client,
+    requester.recipient,
+    ok
+      ? `✅ Done: ${action.summary}`
+      : `⚠️ Failed: ${action.summary}${errorMsg ? ` — ${errorMsg}` : ""}`,
+  ).catch(() => {});
+
+  return result;
+}
+
+/** Resolve a pending confirmation card from a :check: / :cross_mark: reaction. */
+export async function handleApprovalReaction(
+  event: ZulipReactionEvent,
+  ctx: ServiceContext,
+): Promise<void> {
+  if (event.op !== "add" || event.user_id === ctx.botUserId) return;
+  if (event.emoji_name !== APPROVE_EMOJI && event.emoji_name !== REJECT_EMOJI) {
+    return;
+  }
+
+  const entry = pending.get(event.message_id);
+  if (!entry) return;
+
+  if (
+    event.user_id !== entry.requesterId &&
+    !(await hasCapability(ctx, event.user_id, "approve_writes"))
+  ) {
+    return;
+  }
+
+  const userRes = await ctx.client.callEndpoint(`/users/${event.user_id}`, "GET");
+  const user = userRes.user as { full_name: string } | undefined;
+  entry.resolve({
+    status: event.emoji_name === APPROVE_EMOJI ? "approved" : "rejected",
+    by: user?.full_name ?? "Unknown",
+  });
+}
+
+/**
+ * Expire approvals left pending by a previous run: nothing is waiting on
+ * them any more. Their cards get the outcome in place of the instructions.
+ */
+export async function expireStaleApprovals(ctx: ServiceContext): Promise<void> {
+  const rows = expireStaleWriteApprovals();
+  for (const row of rows) {
+    const res = await ctx.client
+      .callEndpoint(`/messages/${row.card_msg_id}`, "GET", { apply_markdown: false })
+      .catch(() => undefined);
+    const raw = typeof res?.raw_content === "string" ? res.raw_content : "";
+    if (!raw) continue;
+    // The instructions are the card's last line
+    const content = `${raw.slice(0, raw.lastIndexOf("\n") + 1)}⌛ Expired: the bot restarted before a decision.`;
+    await ctx.client
+      .callEndpoint(`/messages/${row.card_msg_id}`, "PATCH", { content })
+      .catch(() => {});
+  }
+  if (rows.length > 0) {
+    console.log(`  Expired ${rows.length} write approval(s) left pending`);
+  }
+}
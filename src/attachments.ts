@@ -0,0 +1,199 @@
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { basename, extname, join } from "node:path";
+import type { Config } from "./config.js";
+import type { ZulipClient } from "./zulip.js";
+import type { ClaudeImage } from "./claude.js";
+
+/**
+ * Files uploaded to Zulip and referenced in a question, prepared for
+ * Claude: images as image content, small text files inlined in the
+ * prompt, larger ones saved to a scratch directory for the Read tool.
+ */
+export interface Attachments {
+  images: ClaudeImage[];
+  /** Text to append to the question (inlined files, saved file paths). */
+  promptText: string;
+  /** Footer for the answer listing what was ingested or skipped. */
+  note: string | null;
+  /** Scratch directory to remove once the answer is done. */
+  scratchDir: string | null;
+}
+
+const IMAGE_TYPES: Record<string, ClaudeImage["mediaType"]> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+};
+
+/** The API rejects images over 5 MB once base64-encoded. */
+const MAX_IMAGE_BYTES = 3.75 * 1024 * 1024;
+/** Text files up to this size go straight into the prompt. */
+const MAX_INLINE_TEXT_BYTES = 8 * 1024;
+
+/**
+ * `/user_uploads/<realm id>/<path>` links in rendered message HTML.
+ * Thumbnails (`/user_uploads/thumbnail/...`) don't match; the full-size
+ * link wraps them anyway.
+ */
+const UPLOAD_LINK_RE =
+  /(?:href|src)="(?:https?:\/\/[^"/]+)?\/user_uploads\/(\d+\/[^"?#]+)"/g;
+
+export function findUploadPaths(html: string): string[] {
+  const paths = new Set<string>();
+  for (const match of html.matchAll(UPLOAD_LINK_RE)) {
+    paths.add(match[1]);
+  }
+  return [...paths];
+}
+
+class AttachmentTooLargeError extends Error {
+  constructor(size: number) {
+    super(`too large (${formatSize(size)})`);
+    this.name = "AttachmentTooLargeError";
+  }
+}
+
+/**
+ * Download an upload with the bot's credentials. Zulip hands API clients
+ * a short-lived URL for the file, which is then fetched directly.
+ */
+async function downloadUpload(
+  client: ZulipClient,
+  config: Config,
+  path: string,
+  maxBytes: number,
+): Promise<Buffer> {
+  const res = await client.callEndpoint(`/user_uploads/${path}`, "GET");
+  if (res.result !== "success" || typeof res.url !== "string") {
+    throw new Error(res.msg ?? "no download URL");
+  }
+
+  const response = await fetch(new URL(res.url, config.zulipRealm));
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const length = Number(response.headers.get("content-length") ?? 0);
+  if (length > maxBytes) throw new AttachmentTooLargeError(length);
+
+  const data = Buffer.from(await response.arrayBuffer());
+  if (data.length > maxBytes) throw new AttachmentTooLargeError(data.length);
+  return data;
+}
+
+/** Treat a file as text if its first few KB contain no NUL bytes. */
+function looksLikeText(data: Buffer): boolean {
+  return !data.subarray(0, 8192).includes(0);
+}
+
+function formatSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+}
+
+/**
+ * Download every upload referenced in `html` (up to the configured count
+ * and size limits) and prepare it for Claude. Files are saved under
+ * `config.attachmentsDir/<scratchKey>`; failures are reported in the note
+ * rather than thrown.
+ */
+export async function ingestAttachments(
+  client: ZulipClient,
+  config: Config,
+  html: string,
+  scratchKey: string,
+): Promise<Attachments> {
+  const result: Attachments = {
+    images: [],
+    promptText: "",
+    note: null,
+    scratchDir: null,
+  };
+  const paths = findUploadPaths(html);
+  if (paths.length === 0) return result;
+
+  const ingested: string[] = [];
+  const skipped: string[] = [];
+  const promptParts: string[] = [];
+
+  for (const [i, path] of paths.entries()) {
+    let name: string;
+    try {
+      name = basename(decodeURIComponent(path));
+    } catch {
+      // A malformed escape like "%zz" in a hand-written link
+      console.warn(`Could not ingest attachment ${path}: malformed file name`);
+      skipped.push(`${basename(path)} (malformed file name)`);
+      continue;
+    }
+    if (name === "" || name === "." || name === "..") {
+      console.warn(`Could not ingest attachment ${path}: unusable file name`);
+      skipped.push(`${path} (unusable file name)`);
+      continue;
+    }
+    if (i >= config.attachmentMaxCount) {
+      skipped.push(`${name} (over the ${config.attachmentMaxCount}-file limit)`);
+      continue;
+    }
+
+    const imageType = IMAGE_TYPES[extname(name).toLowerCase()];
+    const maxBytes = imageType
+      ? Math.min(config.attachmentMaxBytes, MAX_IMAGE_BYTES)
+      : config.attachmentMaxBytes;
+
+    let data: Buffer;
+    try {
+      data = await downloadUpload(client, config, path, maxBytes);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      console.warn(`Could not ingest attachment ${path}: ${reason}`);
+      skipped.push(`${name} (${reason})`);
+      continue;
+    }
+
+    if (imageType) {
+      result.images.push({ mediaType: imageType, data: data.toString("base64") });
+      ingested.push(`${name} (image)`);
+    } else if (!looksLikeText(data)) {
+      skipped.push(`${name} (binary file)`);
+    } else if (data.length <= MAX_INLINE_TEXT_BYTES) {
+      promptParts.push(
+        `Attached file \`${name}\`:\n\`\`\`\`\n${data.toString("utf-8")}\n\`\`\`\``,
+      );
+      ingested.push(name);
+    } else {
+      result.scratchDir ??= join(config.attachmentsDir, scratchKey);
+      // Prefixed with its position, so uploads with the same name don't collide
+      const file = join(result.scratchDir, `${i + 1}-${name}`);
+      try {
+        await mkdir(result.scratchDir, { recursive: true });
+        await writeFile(file, data);
+      } catch (err) {
+        const reason = err instanceof Error ? err.message : String(err);
+        console.warn(`Could not save attachment ${path}: ${reason}`);
+        skipped.push(`${name} (couldn't save it)`);
+        continue;
+      }
+      promptParts.push(
+        `Attached file \`${name}\` (${formatSize(data.length)}) was saved to ${file}; use the Read tool to inspect it.`,
+      );
+      ingested.push(`${name} (${formatSize(data.length)}, read from disk)`);
+    }
+  }
+
+  result.promptText = promptParts.join("\n\n");
+  const noteParts = [
+    ...(ingested.length > 0 ? [`Read ${ingested.join(", ")}`] : []),
+    ...(skipped.length > 0 ? [`skipped ${skipped.join(", ")}`] : []),
+  ];
+  result.note = `*📎 ${noteParts.join("; ")}.*`;
+  return result;
+}
+
+/** Remove an answer's scratch directory, if it made one. */
+export async function cleanupAttachments(attachments: Attachments): Promise<void> {
+  if (!attachments.scratchDir) return;
+  await rm(attachments.scratchDir, { recursive: true, force: true }).catch(
+    (err) => console.warn(`Failed to remove ${attachments.scratchDir}:`, err),
+  );
+}
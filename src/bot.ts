@@ -1,29 +1,80 @@
-import type { McpSdkServerConfigWithInstance } from "@anthropic-ai/claude-agent-sdk";
 import type { Config } from "./config.js";
-import type { ZulipClient, ZulipMessageEvent } from "./zulip.js";
+import type {
+  ZulipDeleteMessageEvent,
+  ZulipMessage,
+  ZulipMessageEvent,
+  ZulipReactionEvent,
+  ZulipUpdateMessageEvent,
+} from "./zulip.js";
 import {
-  fetchTopicMessages,
+  conversationKey,
+  fetchRecentMessages,
+  replyRecipient,
   sendMessage,
   startStreamingMessage,
+  uploadFile,
 } from "./zulip.js";
-import { htmlToText } from "./html-to-text.js";
-import { askClaude } from "./claude.js";
+import { htmlToMarkdown } from "./html-to-markdown.js";
+import { askClaude, SessionResumeError } from "./claude.js";
+import { cleanupAttachments, ingestAttachments } from "./attachments.js";
+import { buildContext, refreshContextSummary } from "./context.js";
+import type { Attachments } from "./attachments.js";
+import { acquireSlot, takeQuota } from "./scheduler.js";
+import {
+  cancelInflight,
+  getInflight,
+  getInflightInConversation,
+  registerInflight,
+  unregisterInflight,
+} from "./inflight.js";
+import type { InflightRequest } from "./inflight.js";
+import type { ClaudeAnswer, ClaudeUsage, ToolCall } from "./claude.js";
+import {
+  deleteClaudeAnswer,
+  deleteClaudeSession,
+  getClaudeAnswerByAnswer,
+  getClaudeAnswerByQuestion,
+  getClaudeSession,
+  markClaudeAnswerOrphaned,
+  recordClaudeUsage,
+  recordToolCall,
+  saveClaudeAnswer,
+  saveClaudeSession,
+  setClaudeAnswerExtraMsgIds,
+} from "./db.js";
+import type { ClaudeAnswerRow } from "./db.js";
+import { getEffectivePermissions, requireCapability } from "./policy.js";
+import { createZulipMcpServer, ZULIP_WRITE_TOOLS } from "./zulip-tools.js";
+import { requestWriteApproval } from "./approvals.js";
+import { getProfile, listProfiles, resolveProfile } from "./profiles.js";
+import type { ClaudeProfile } from "./profiles.js";
 import type { Service, ServiceContext } from "./services/types.js";
 
+/** `--profile <name>` picks a Claude profile for this question. */
+const PROFILE_FLAG_RE = /--profile\s+(\S+)/i;
+
 export async function handleMessage(
   event: ZulipMessageEvent,
   services: Service[],
   ctx: ServiceContext,
-  zulipMcp: McpSdkServerConfigWithInstance,
 ): Promise<void> {
   const msg = event.message;
 
-  if (msg.type !== "stream") return;
   if (msg.sender_email === ctx.botEmail) return;
-  if (!event.flags.includes("mentioned")) return;
+  const mentioned = event.flags.includes("mentioned");
 
-  const channel = msg.display_recipient;
-  const topic = msg.subject;
+  for (const svc of services) {
+    if (!svc.onAnyMessage) continue;
+    await svc.onAnyMessage(msg, ctx, mentioned).catch((err) =>
+      console.error(`[${svc.name}] error in onAnyMessage:`, err),
+    );
+  }
+
+  if (!mentioned && !isOneOnOneDm(msg, ctx.botUserId)) {
+    return;
+  }
+
+  const recipient = replyRecipient(msg, ctx.botUserId);
 
   console.log(`Processing message ${msg.id} from ${msg.sender_full_name}`);
 
@@ -38,57 +89,518 @@ export async function handleMessage(
     }
   }
 
+  const key = conversationKey(recipient);
+  const command = htmlToMarkdown(msg.content).trim().toLowerCase();
+
+  if (command === "reset") {
+    const had = deleteClaudeSession(key.channel, key.topic);
+    await sendMessage(
+      ctx.client,
+      recipient,
+      had
+        ? "Conversation reset. My next answer here starts a fresh session."
+        : "There's no active conversation to reset here.",
+    );
+    return;
+  }
+
+  if (command === "cancel") {
+    const cancelled = getInflightInConversation(key.channel, key.topic).filter(
+      (req) => cancelInflight(req, msg.sender_full_name),
+    );
+    if (cancelled.length === 0) {
+      await sendMessage(
+        ctx.client,
+        recipient,
+        "There's no answer in progress here to cancel.",
+      );
+    }
+    return;
+  }
+
   // No service claimed it — pass to Claude
-  const streaming = await startStreamingMessage(ctx.client, channel, topic);
+  await answerQuestion(msg, ctx);
+}
+
+/**
+ * Re-answer a question when its author edits it, overwriting the bot's
+ * existing reply in place (Zulip keeps the old answer in edit history).
+ */
+export async function handleMessageEdit(
+  event: ZulipUpdateMessageEvent,
+  ctx: ServiceContext,
+): Promise<void> {
+  // Topic/channel moves carry no new content
+  if (event.rendered_content === undefined) return;
+  if (event.user_id === null || event.user_id === ctx.botUserId) return;
+
+  const answer = getClaudeAnswerByQuestion(event.message_id);
+  if (!answer || answer.orphaned) return;
+  // Already being rewritten — let that run finish
+  if (getInflight(answer.answer_msg_id)) return;
+
+  const res = await ctx.client.callEndpoint(`/messages/${event.message_id}`, "GET");
+  const msg = res.message as ZulipMessage | undefined;
+  if (!msg) return;
+  const mentioned = event.flags?.includes("mentioned") ?? false;
+  if (!mentioned && !isOneOnOneDm(msg, ctx.botUserId)) return;
+
+  console.log(`Message ${msg.id} edited, re-answering in ${answer.answer_msg_id}`);
+  await answerQuestion(msg, ctx, { replaceMessageId: answer.answer_msg_id });
+}
+
+const ORPHANED_NOTE = "*The question this answered has been deleted.*";
+
+/** Ids of the messages an over-long answer continues in. */
+function extraMsgIds(answer: ClaudeAnswerRow): number[] {
+  return answer.extra_msg_ids ? answer.extra_msg_ids.split(",").map(Number) : [];
+}
+
+/**
+ * When a question is deleted, delete the bot's answer too. If the realm
+ * doesn't let the bot delete its own messages, mark the answer orphaned
+ * instead. Deleting an answer just forgets the mapping.
+ */
+export async function handleMessageDelete(
+  event: ZulipDeleteMessageEvent,
+  ctx: ServiceContext,
+): Promise<void> {
+  const ids = event.message_ids ?? (event.message_id !== undefined ? [event.message_id] : []);
+
+  for (const id of ids) {
+    const answered = getClaudeAnswerByAnswer(id);
+    if (answered) deleteClaudeAnswer(answered.id);
+
+    const answer = getClaudeAnswerByQuestion(id);
+    if (!answer || answer.orphaned) continue;
+
+    const deleted = await ctx.client.callEndpoint(
+      `/messages/${answer.answer_msg_id}`,
+      "DELETE",
+    );
+    if (deleted.result === "success") {
+      for (const extra of extraMsgIds(answer)) {
+        await ctx.client.callEndpoint(`/messages/${extra}`, "DELETE").catch(() => {});
+      }
+      deleteClaudeAnswer(answer.id);
+      console.log(`Question ${id} deleted, removed answer ${answer.answer_msg_id}`);
+      continue;
+    }
+
+    const existing = await ctx.client.callEndpoint(
+      `/messages/${answer.answer_msg_id}`,
+      "GET",
+      { apply_markdown: false },
+    );
+    const raw = typeof existing.raw_content === "string" ? existing.raw_content : "";
+    await ctx.client.callEndpoint(`/messages/${answer.answer_msg_id}`, "PATCH", {
+      content: `${ORPHANED_NOTE}\n\n---\n${raw}`,
+    });
+    markClaudeAnswerOrphaned(answer.id);
+    console.log(`Question ${id} deleted, marked answer ${answer.answer_msg_id} orphaned`);
+  }
+}
+
+/**
+ * Run Claude on `msg` and stream the answer into a new reply, or into
+ * `replaceMessageId` when re-answering. `model` overrides the profile's
+ * model. The quota is charged to `requestedBy` when someone other than the
+ * sender asked for the answer (a regenerate reaction). Checks permissions,
+ * profile and quota first, replying with an explanation if any of them
+ * refuse.
+ */
+export async function answerQuestion(
+  msg: ZulipMessage,
+  ctx: ServiceContext,
+  opts: { replaceMessageId?: number; model?: string; requestedBy?: number } = {},
+): Promise<void> {
+  const recipient = replyRecipient(msg, ctx.botUserId);
+  const key = conversationKey(recipient);
+
+  if (!(await requireCapability(ctx, msg, "ask"))) return;
+  const perms = await getEffectivePermissions(ctx, msg.sender_id);
+  const disallowedTools = [
+    ...(perms.capabilities.has("use_bash") ? [] : ["Bash"]),
+    ...(perms.capabilities.has("zulip_write") ? [] : ZULIP_WRITE_TOOLS),
+  ];
+
+  const requested = PROFILE_FLAG_RE.exec(htmlToMarkdown(msg.content))?.[1];
+  const resolved = requested
+    ? getProfile(requested, ctx.config)
+    : await resolveProfile(
+        ctx.client,
+        ctx.config,
+        recipient.type === "stream" ? recipient.channel : null,
+      );
+  if (!resolved) {
+    await sendMessage(
+      ctx.client,
+      recipient,
+      `Unknown profile \`${requested}\`. Available: ${listProfiles().map((p) => `\`${p}\``).join(", ")}`,
+    );
+    return;
+  }
+  const profile = opts.model ? { ...resolved, model: opts.model } : resolved;
+
+  const quota = takeQuota(
+    opts.requestedBy ?? msg.sender_id,
+    recipient.type === "stream" ? recipient.channel : null,
+    ctx.config,
+  );
+  if (!quota.ok) {
+    const minutes = Math.max(1, Math.ceil(quota.retryAfterMs / 60_000));
+    const who = quota.scope === "user" ? "you've" : "this channel has";
+    await sendMessage(
+      ctx.client,
+      recipient,
+      `Sorry, ${who} reached the limit of questions I can answer for now. ` +
+        `Please try again in about ${minutes} minute${minutes === 1 ? "" : "s"}.`,
+    );
+    return;
+  }
+
+  const replacing =
+    opts.replaceMessageId !== undefined
+      ? getClaudeAnswerByAnswer(opts.replaceMessageId)
+      : undefined;
+  const streaming = await startStreamingMessage(ctx.client, recipient, {
+    toolSummary: ctx.config.showToolSummary,
+    messageId: opts.replaceMessageId,
+    extraMessageIds: replacing ? extraMsgIds(replacing) : undefined,
+    upload: (filename, content) => uploadFile(ctx.config, filename, content),
+  });
+  const inflight: InflightRequest = {
+    messageId: streaming.messageId,
+    channel: key.channel,
+    topic: key.topic,
+    requesterId: msg.sender_id,
+    controller: new AbortController(),
+  };
+  registerInflight(inflight);
+  let release: (() => void) | undefined;
+  let partial = "";
+  // Set once Claude actually runs (after queueing), for usage accounting
+  let claudeStartedAt: number | undefined;
+  let usage: ClaudeUsage | undefined;
+  let toolCount = 0;
+  let attachments: Attachments | undefined;
 
   try {
-    const question = htmlToText(msg.content);
-    if (!question.trim()) {
+    const question = htmlToMarkdown(msg.content).replace(PROFILE_FLAG_RE, "").trim();
+    if (!question) {
       await streaming.cancel();
       await sendMessage(
         ctx.client,
-        channel,
-        topic,
+        recipient,
         "It looks like you mentioned me but didn't include a question. How can I help?",
       );
       return;
     }
 
-    const recentMessages = await fetchTopicMessages(
+    attachments = await ingestAttachments(
       ctx.client,
-      channel,
-      topic,
-      ctx.config.contextMessages,
+      ctx.config,
+      msg.content,
+      `${msg.id}-${streaming.messageId}`,
     );
+    const prompt = attachments.promptText
+      ? `${question}\n\n${attachments.promptText}`
+      : question;
 
-    const context = recentMessages
-      .filter((m) => m.id !== msg.id)
-      .map((m) => `${m.sender_full_name}: ${htmlToText(m.content)}`)
-      .join("\n");
+    const recentMessages = await fetchRecentMessages(
+      ctx.client,
+      recipient,
+      ctx.config.contextMessages,
+    );
+    // A session only carries over while the profile (and thus cwd) is the
+    // same. Re-answers start fresh: the session already holds the old turn.
+    const stored = getClaudeSession(
+      key.channel,
+      key.topic,
+      ctx.config.sessionTtlMs,
+    );
+    const session =
+      stored?.profile === profile.name && opts.replaceMessageId === undefined
+        ? stored
+        : undefined;
 
-    console.log("Calling Claude...");
-    const answer = await askClaude(
-      question,
-      context,
+    release = await acquireSlot(
       ctx.config,
-      zulipMcp,
-      (text) => streaming.update(text),
+      (position) => streaming.setQueuePosition(position),
+      inflight.controller.signal,
+    );
+    streaming.setQueuePosition(null);
+    claudeStartedAt = Date.now();
+
+    const onText = (text: string) => {
+      partial = text;
+      streaming.update(text);
+    };
+    const abortController = inflight.controller;
+    // Waiting for a human to approve a write needs no Claude slot: give it
+    // up meanwhile and queue again once every pending approval is decided.
+    let approvalsWaiting = 0;
+    const zulipMcp = createZulipMcpServer(ctx.client, ctx.config, (action) =>
+      requestWriteApproval(
+        ctx,
+        {
+          recipient,
+          channel: key.channel,
+          topic: key.topic,
+          userId: msg.sender_id,
+          userName: msg.sender_full_name,
+        },
+        action,
+        {
+          signal: abortController.signal,
+          pauseSlot: () => {
+            if (approvalsWaiting++ > 0) return;
+            release?.();
+            release = undefined;
+          },
+          resumeSlot: async () => {
+            if (--approvalsWaiting > 0) return;
+            release = await acquireSlot(ctx.config, undefined, abortController.signal);
+          },
+        },
+      ),
+    );
+    const onUsage = (u: ClaudeUsage) => {
+      usage = addUsage(usage, u);
+    };
+    const onToolCall = (call: ToolCall) => {
+      toolCount++;
+      logToolCall(msg, key, call);
+    };
+    const onToolUse = (name: string, input: unknown) =>
+      streaming.toolUsed(name, input);
+    const contextParams = {
+      client: ctx.client,
+      config: ctx.config,
+      key,
+      question: msg,
+      messages: recentMessages,
+      botEmail: ctx.botEmail,
+    };
+    let context = await buildContext({ ...contextParams, session });
+    let answer: ClaudeAnswer;
+
+    console.log(
+      session ? `Resuming Claude session ${session.session_id}...` : "Calling Claude...",
     );
-    console.log(`Claude responded (${answer.length} chars)`);
+    try {
+      answer = await askClaude(
+        prompt,
+        context.text,
+        profile,
+        zulipMcp,
+        {
+          resumeSessionId: session?.session_id,
+          onText,
+          abortController,
+          disallowedTools,
+          onUsage,
+          onToolCall,
+          onToolUse,
+          images: attachments.images,
+        },
+      );
+    } catch (err) {
+      if (!(err instanceof SessionResumeError)) throw err;
+      // Session is gone on the CLI side — start over with the full context
+      console.warn(`${err.message}; starting a fresh session`);
+      deleteClaudeSession(key.channel, key.topic);
+      context = await buildContext({ ...contextParams, session: undefined });
+      answer = await askClaude(
+        prompt,
+        context.text,
+        profile,
+        zulipMcp,
+        {
+          onText,
+          abortController,
+          disallowedTools,
+          onUsage,
+          onToolCall,
+          onToolUse,
+          images: attachments.images,
+        },
+      );
+    }
+    console.log(`Claude responded (${answer.text.length} chars)`);
+    logUsage(msg, key, usage, claudeStartedAt, profile);
+
+    // Don't let a re-answer of an older question clobber a newer session
+    if (!stored || stored.last_msg_id <= msg.id) {
+      saveClaudeSession({
+        channel: key.channel,
+        topic: key.topic,
+        sessionId: answer.sessionId,
+        profile: profile.name,
+        lastMsgId: msg.id,
+      });
+    }
 
-    await streaming.finalize(answer);
+    const extraIds = await streaming.finalize(
+      attachments.note ? `${answer.text}\n\n${attachments.note}` : answer.text,
+    );
+    saveClaudeAnswer({
+      questionMsgId: msg.id,
+      answerMsgId: streaming.messageId,
+      channel: key.channel,
+      topic: key.topic,
+      userName: msg.sender_full_name,
+      userId: msg.sender_id,
+      profile: profile.name,
+      question,
+      model: usage?.model ?? profile.model ?? "default",
+      contextMessages: context.messageCount,
+      toolCount,
+      extraMsgIds: extraIds,
+    });
+    // Fold what didn't fit into the topic's rolling summary, off the hot path
+    refreshContextSummary(ctx.config, key, context.overflow).catch(() => {});
   } catch (err) {
-    await streaming.cancel();
+    if (claudeStartedAt !== undefined) {
+      const reason = inflight.cancelledBy
+        ? `cancelled by ${inflight.cancelledBy}`
+        : err instanceof Error
+          ? err.message
+          : String(err);
+      logUsage(msg, key, usage, claudeStartedAt, profile, reason);
+    }
+    if (inflight.cancelledBy) {
+      const footer = `*Cancelled by ${inflight.cancelledBy}.*`;
+      const extraIds = await streaming.finalize(
+        partial ? `${partial}\n\n---\n${footer}` : footer,
+      );
+      if (replacing) setClaudeAnswerExtraMsgIds(streaming.messageId, extraIds);
+      console.log(`Request ${msg.id} cancelled by ${inflight.cancelledBy}`);
+      return;
+    }
     const errorMsg =
       err instanceof Error ? err.message : "An unknown error occurred";
     console.error(`Error handling message ${msg.id}:`, errorMsg);
+    if (streaming.messageId === opts.replaceMessageId) {
+      // Keep the previous answer rather than leave the question unanswered
+      await streaming.cancel(`⚠️ *Couldn't update this answer: ${errorMsg}. The previous answer is below.*`);
+      return;
+    }
+    await streaming.cancel();
     await sendMessage(
       ctx.client,
-      channel,
-      topic,
+      recipient,
       `Sorry, I encountered an error processing your request: ${errorMsg}`,
     ).catch((sendErr) => {
       console.error("Failed to send error message:", sendErr);
     });
+  } finally {
+    unregisterInflight(streaming.messageId);
+    release?.();
+    if (attachments) await cleanupAttachments(attachments);
   }
 }
+
+/**
+ * Cancel an in-flight answer when someone reacts :stop_sign: on its
+ * streaming message.
+ */
+export async function handleStopReaction(
+  event: ZulipReactionEvent,
+  ctx: ServiceContext,
+): Promise<void> {
+  if (event.op !== "add" || event.user_id === ctx.botUserId) return;
+  if (event.emoji_name !== "stop_sign") return;
+
+  const req = getInflight(event.message_id);
+  if (!req) return;
+
+  const userRes = await ctx.client.callEndpoint(`/users/${event.user_id}`, "GET");
+  const user = userRes.user as { full_name: string } | undefined;
+  cancelInflight(req, user?.full_name ?? "Unknown");
+}
+
+function addUsage(a: ClaudeUsage | undefined, b: ClaudeUsage): ClaudeUsage {
+  if (!a) return b;
+  return {
+    model: b.model,
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    costUsd: a.costUsd + b.costUsd,
+    durationMs: a.durationMs + b.durationMs,
+    numTurns: a.numTurns + b.numTurns,
+  };
+}
+
+/** Record a Claude call in `claude_usage`; `error` marks it as failed. */
+function logUsage(
+  msg: ZulipMessage,
+  key: { channel: string; topic: string },
+  usage: ClaudeUsage | undefined,
+  startedAt: number,
+  profile: ClaudeProfile,
+  error?: string,
+): void {
+  try {
+    recordClaudeUsage({
+      userName: msg.sender_full_name,
+      userId: msg.sender_id,
+      channel: key.channel,
+      topic: key.topic,
+      model: usage?.model ?? profile.model ?? "default",
+      inputTokens: usage?.inputTokens ?? 0,
+      outputTokens: usage?.outputTokens ?? 0,
+      costUsd: usage?.costUsd ?? 0,
+      durationMs: usage?.durationMs ?? Date.now() - startedAt,
+      numTurns: usage?.numTurns ?? 0,
+      success: !error,
+      error,
+    });
+  } catch (err) {
+    console.error("Failed to record Claude usage:", err);
+  }
+}
+
+const MAX_AUDIT_INPUT = 4000;
+const MAX_AUDIT_OUTPUT = 2000;
+
+function truncateForAudit(value: unknown, maxLen: number): string {
+  const text = typeof value === "string" ? value : JSON.stringify(value) ?? "";
+  if (text.length <= maxLen) return text;
+  return `${text.slice(0, maxLen)}… (${text.length - maxLen} more chars)`;
+}
+
+/** Record one of Claude's tool calls in the `tool_calls` audit log. */
+function logToolCall(
+  msg: ZulipMessage,
+  key: { channel: string; topic: string },
+  call: ToolCall,
+): void {
+  console.log(`  tool: ${call.toolName} (${call.durationMs}ms)${call.isError ? " failed" : ""}`);
+  try {
+    recordToolCall({
+      userName: msg.sender_full_name,
+      userId: msg.sender_id,
+      channel: key.channel,
+      topic: key.topic,
+      msgId: msg.id,
+      toolName: call.toolName,
+      input: truncateForAudit(call.input, MAX_AUDIT_INPUT),
+      output: truncateForAudit(call.output, MAX_AUDIT_OUTPUT),
+      durationMs: call.durationMs,
+      isError: call.isError,
+    });
+  } catch (err) {
+    console.error("Failed to record tool call:", err);
+  }
+}
+
+/**
+ * A 1:1 DM with the bot is always addressed to it, so no @-mention is
+ * required. Group DMs still need a mention, like channel messages.
+ */
+function isOneOnOneDm(msg: ZulipMessage, botUserId: number): boolean {
+  if (msg.type !== "private") return false;
+  const others = msg.display_recipient.filter((r) => r.id !== botUserId);
+  return others.length === 1;
+}
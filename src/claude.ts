@@ -1,81 +1,340 @@
 import { query } from "@anthropic-ai/claude-agent-sdk";
-import type { McpSdkServerConfigWithInstance } from "@anthropic-ai/claude-agent-sdk";
-import type { Config } from "./config.js";
+import type {
+  HookCallback,
+  McpSdkServerConfigWithInstance,
+  SDKUserMessage,
+} from "@anthropic-ai/claude-agent-sdk";
+import type { ClaudeProfile } from "./profiles.js";
+
+export interface ClaudeUsage {
+  model: string;
+  /** Prompt tokens, including cache reads and writes. */
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  durationMs: number;
+  numTurns: number;
+}
+
+/** A completed tool invocation, as reported by the SDK's tool hooks. */
+export interface ToolCall {
+  toolUseId: string;
+  toolName: string;
+  input: unknown;
+  /** Tool response, or the error message when `isError`. */
+  output: unknown;
+  durationMs: number;
+  isError: boolean;
+}
+
+/** An image passed to Claude alongside the question. */
+export interface ClaudeImage {
+  mediaType: "image/png" | "image/jpeg" | "image/gif" | "image/webp";
+  /** Base64-encoded image bytes. */
+  data: string;
+}
+
+export interface AskClaudeOptions {
+  /** Agent SDK session id to resume instead of starting a fresh session. */
+  resumeSessionId?: string;
+  /** Called with the accumulated answer text as it streams in. */
+  onText?: (accumulatedText: string) => void;
+  /** Aborting stops the query mid-flight. */
+  abortController?: AbortController;
+  /** Tools Claude may not use on this call (e.g. denied by policy). */
+  disallowedTools?: string[];
+  /** Called with token and cost figures once the query reports a result. */
+  onUsage?: (usage: ClaudeUsage) => void;
+  /** Called after every tool call Claude makes, successful or not. */
+  onToolCall?: (call: ToolCall) => void;
+  /** Called as soon as Claude decides to use a tool (from the stream). */
+  onToolUse?: (name: string, input: unknown) => void;
+  /** Images (e.g. pasted screenshots) to send with the question. */
+  images?: ClaudeImage[];
+}
+
+export interface ClaudeAnswer {
+  text: string;
+  /** Session id of this conversation; pass back as `resumeSessionId`. */
+  sessionId: string;
+}
+
+/**
+ * Thrown when a session could not be resumed (e.g. the session files were
+ * removed or expired on the CLI side) before Claude produced any output.
+ * Callers should fall back to a fresh session with the full context.
+ */
+export class SessionResumeError extends Error {
+  constructor(sessionId: string, cause: string) {
+    super(`Could not resume session ${sessionId}: ${cause}`);
+    this.name = "SessionResumeError";
+  }
+}
 
 export async function askClaude(
   question: string,
   conversationContext: string,
-  config: Config,
+  profile: ClaudeProfile,
   zulipMcp: McpSdkServerConfigWithInstance,
-  onText?: (accumulatedText: string) => void,
-): Promise<string> {
+  opts: AskClaudeOptions = {},
+): Promise<ClaudeAnswer> {
+  const {
+    resumeSessionId,
+    onText,
+    abortController,
+    disallowedTools,
+    onUsage,
+    onToolCall,
+    onToolUse,
+    images,
+  } = opts;
+
+  const contextIntro = resumeSessionId
+    ? "Here are the messages posted in this Zulip conversation since your last reply:"
+    : "Here is the recent conversation context from this Zulip topic:";
+
   const systemPrompt = [
     "You are a helpful coding assistant bot in a Zulip chat.",
     "You have access to tools for reading files, searching code, running commands, and web search.",
     "You also have access to Zulip API tools (prefixed with mcp__zulip__) to look up channels, users, topics, messages, and presence.",
     "Some Zulip tools are WRITE operations (create channel, create topic, subscribe users).",
-    "For ANY write operation: first describe exactly what you will do and ask the user to confirm.",
-    "Only call the write tool with confirmed=true AFTER you see explicit confirmation (e.g. 'yes', 'do it', 'go ahead') in the conversation context above.",
-    "If there is no confirmation in the conversation context, describe the action and ask — do NOT execute it.",
+    "Calling a write tool posts a confirmation card; the action only runs after the user approves it, so call the tool directly when the user asks for the action.",
+    "If a write tool reports the action was rejected or expired, tell the user and do not retry unless they ask again.",
     "Answer questions clearly and concisely. Use Zulip-compatible markdown formatting.",
+    "For long files such as patches, CSVs or log excerpts, upload them with mcp__zulip__zulip_upload_file and link the result instead of pasting them inline.",
     "When referencing code, include file paths and line numbers when possible.",
+    "Files and images the user attached to their message are included with the question.",
+    ...(profile.systemPrompt ? ["", profile.systemPrompt] : []),
     "",
-    "Here is the recent conversation context from this Zulip topic:",
+    contextIntro,
     "---",
-    conversationContext,
+    conversationContext || "(none)",
     "---",
   ].join("\n");
 
   const options: Parameters<typeof query>[0]["options"] = {
     systemPrompt,
-    allowedTools: [
-      "Read",
-      "Grep",
-      "Glob",
-      "Bash",
-      "WebSearch",
-      "mcp__zulip__*",
-    ],
+    // `tools` limits the built-in tools on offer; `allowedTools` pre-approves
+    allowedTools: profile.allowedTools,
+    tools: profile.allowedTools.filter((t) => !t.startsWith("mcp__")),
     permissionMode: "bypassPermissions",
     allowDangerouslySkipPermissions: true,
-    cwd: config.claudeCwd,
-    maxTurns: config.claudeMaxTurns,
-    persistSession: false,
+    cwd: profile.cwd,
+    maxTurns: profile.maxTurns,
+    persistSession: true,
     mcpServers: { zulip: zulipMcp },
   };
 
-  if (config.claudeModel) {
-    options.model = config.claudeModel;
+  if (resumeSessionId) {
+    options.resume = resumeSessionId;
+  }
+
+  if (abortController) {
+    options.abortController = abortController;
+  }
+
+  if (disallowedTools && disallowedTools.length > 0) {
+    options.disallowedTools = disallowedTools;
+  }
+
+  if (profile.model) {
+    options.model = profile.model;
   }
 
   if (onText) {
     (options as Record<string, unknown>).includePartialMessages = true;
   }
 
+  if (onToolCall) {
+    options.hooks = toolCallHooks(onToolCall);
+  }
+
+  const prompt =
+    images && images.length > 0 ? withImages(question, images) : question;
+
   let accumulated = "";
+  let model = profile.model ?? "default";
+  // Whether Claude produced anything — a resume failure happens before this.
+  let started = false;
+
+  try {
+    for await (const message of query({ prompt, options })) {
+      if (message.type === "assistant" || message.type === "stream_event") {
+        started = true;
+      }
 
-  for await (const message of query({ prompt: question, options })) {
-    // Stream text deltas to the callback
-    if (onText && message.type === "stream_event") {
-      const event = (message as { event: Record<string, unknown> }).event;
-      if (event.type === "content_block_delta") {
-        const delta = event.delta as { type: string; text?: string } | undefined;
-        if (delta?.type === "text_delta" && delta.text) {
-          accumulated += delta.text;
-          onText(accumulated);
+      if (message.type === "system" && message.subtype === "init") {
+        model = message.model;
+      }
+
+      // Surface tool calls as they are issued (top-level agent only)
+      if (
+        onToolUse &&
+        message.type === "assistant" &&
+        message.parent_tool_use_id === null
+      ) {
+        for (const block of message.message.content) {
+          if (block.type === "tool_use") {
+            onToolUse(block.name, block.input);
+          }
         }
       }
-    }
 
-    if (message.type === "result") {
-      if (message.subtype === "success") {
-        return message.result;
+      // Stream text deltas to the callback
+      if (onText && message.type === "stream_event") {
+        const event = (message as { event: Record<string, unknown> }).event;
+        if (event.type === "content_block_delta") {
+          const delta = event.delta as { type: string; text?: string } | undefined;
+          if (delta?.type === "text_delta" && delta.text) {
+            accumulated += delta.text;
+            onText(accumulated);
+          }
+        }
+      }
+
+      if (message.type === "result") {
+        const { usage } = message;
+        onUsage?.({
+          model,
+          inputTokens:
+            usage.input_tokens +
+            usage.cache_read_input_tokens +
+            usage.cache_creation_input_tokens,
+          outputTokens: usage.output_tokens,
+          costUsd: message.total_cost_usd,
+          durationMs: message.duration_ms,
+          numTurns: message.num_turns,
+        });
+
+        if (message.subtype === "success") {
+          return { text: message.result, sessionId: message.session_id };
+        }
+        const errors =
+          "errors" in message ? message.errors.join("; ") : "Unknown error";
+        throw new Error(`Claude query failed (${message.subtype}): ${errors}`);
       }
-      const errors =
-        "errors" in message ? message.errors.join("; ") : "Unknown error";
-      throw new Error(`Claude query failed (${message.subtype}): ${errors}`);
     }
+  } catch (err) {
+    if (resumeSessionId && !started && !abortController?.signal.aborted) {
+      const cause = err instanceof Error ? err.message : String(err);
+      throw new SessionResumeError(resumeSessionId, cause);
+    }
+    throw err;
   }
 
   throw new Error("Claude query ended without a result message");
 }
+
+/** A single user message carrying the question text plus images. */
+async function* withImages(
+  text: string,
+  images: ClaudeImage[],
+): AsyncIterable<SDKUserMessage> {
+  yield {
+    type: "user",
+    session_id: "",
+    parent_tool_use_id: null,
+    message: {
+      role: "user",
+      content: [
+        ...images.map((img) => ({
+          type: "image" as const,
+          source: {
+            type: "base64" as const,
+            media_type: img.mediaType,
+            data: img.data,
+          },
+        })),
+        { type: "text" as const, text },
+      ],
+    },
+  };
+}
+
+/**
+ * One-shot completion without tools or a persisted session, for internal
+ * jobs such as summarising conversation history.
+ */
+export async function completeText(
+  prompt: string,
+  opts: {
+    systemPrompt: string;
+    model?: string;
+    onUsage?: (usage: ClaudeUsage) => void;
+  },
+): Promise<string> {
+  const options: Parameters<typeof query>[0]["options"] = {
+    systemPrompt: opts.systemPrompt,
+    tools: [],
+    maxTurns: 1,
+    persistSession: false,
+  };
+  if (opts.model) {
+    options.model = opts.model;
+  }
+
+  let model = opts.model ?? "default";
+  for await (const message of query({ prompt, options })) {
+    if (message.type === "system" && message.subtype === "init") {
+      model = message.model;
+    }
+    if (message.type === "result") {
+      const { usage } = message;
+      opts.onUsage?.({
+        model,
+        inputTokens:
+          usage.input_tokens +
+          usage.cache_read_input_tokens +
+          usage.cache_creation_input_tokens,
+        outputTokens: usage.output_tokens,
+        costUsd: message.total_cost_usd,
+        durationMs: message.duration_ms,
+        numTurns: message.num_turns,
+      });
+      if (message.subtype === "success") return message.result;
+      throw new Error(`Claude completion failed (${message.subtype})`);
+    }
+  }
+  throw new Error("Claude completion ended without a result message");
+}
+
+/** Hooks that time each tool call and report it once it completes. */
+function toolCallHooks(
+  onToolCall: (call: ToolCall) => void,
+): NonNullable<Parameters<typeof query>[0]["options"]>["hooks"] {
+  const startedAt = new Map<string, number>();
+
+  const pre: HookCallback = async (input) => {
+    if (input.hook_event_name === "PreToolUse") {
+      startedAt.set(input.tool_use_id, Date.now());
+    }
+    return {};
+  };
+
+  const post: HookCallback = async (input) => {
+    if (
+      input.hook_event_name !== "PostToolUse" &&
+      input.hook_event_name !== "PostToolUseFailure"
+    ) {
+      return {};
+    }
+    const start = startedAt.get(input.tool_use_id) ?? Date.now();
+    startedAt.delete(input.tool_use_id);
+    const failed = input.hook_event_name === "PostToolUseFailure";
+    onToolCall({
+      toolUseId: input.tool_use_id,
+      toolName: input.tool_name,
+      input: input.tool_input,
+      output: failed ? input.error : input.tool_response,
+      durationMs: Date.now() - start,
+      isError: failed,
+    });
+    return {};
+  };
+
+  return {
+    PreToolUse: [{ hooks: [pre] }],
+    PostToolUse: [{ hooks: [post] }],
+    PostToolUseFailure: [{ hooks: [post] }],
+  };
+}
@@ -1,16 +1,54 @@
 import "dotenv/config";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 
 export interface Config {
   zulipUsername: string;
   zulipApiKey: string;
   zulipRealm: string;
   contextMessages: number;
+  contextTokenBudget: number;
+  summaryModel: string;
   claudeMaxTurns: number;
   claudeCwd: string;
   claudeModel?: string;
+  claudeStrongModel: string;
+  sessionTtlMs: number;
+  claudeMaxConcurrent: number;
+  userRateBurst: number;
+  userRatePerHour: number;
+  channelRateBurst: number;
+  channelRatePerHour: number;
   tasksChannel: string;
   taskEmoji: string;
+  taskDueSoonMs: number;
+  /** Reactions on a task card that move it to a workflow state. */
+  taskStates: Array<{ emoji: string; status: string }>;
   dbPath: string;
+  policyFile: string;
+  profilesFile: string;
+  approvalTimeoutMs: number;
+  showToolSummary: boolean;
+  attachmentMaxBytes: number;
+  attachmentMaxCount: number;
+  attachmentsDir: string;
+}
+
+/**
+ * Parse `emoji=state` pairs, e.g. "working_on_it=in_progress,check=done".
+ * Malformed entries are skipped with a warning.
+ */
+function parseTaskStates(value: string): Array<{ emoji: string; status: string }> {
+  const states: Array<{ emoji: string; status: string }> = [];
+  for (const entry of value.split(",").map((e) => e.trim()).filter(Boolean)) {
+    const match = /^([a-z0-9_+-]+)=([a-z0-9_]+)$/i.exec(entry);
+    if (!match) {
+      console.warn(`Ignoring malformed TASK_STATES entry: ${entry}`);
+      continue;
+    }
+    states.push({ emoji: match[1], status: match[2].toLowerCase() });
+  }
+  return states;
 }
 
 function requireEnv(name: string): string {
@@ -27,12 +65,38 @@ export function loadConfig(): Config {
     zulipUsername: requireEnv("ZULIP_USERNAME"),
     zulipApiKey: requireEnv("ZULIP_API_KEY"),
     zulipRealm: requireEnv("ZULIP_REALM").replace(/\/+$/, ""),
-    contextMessages: parseInt(process.env.CONTEXT_MESSAGES ?? "20", 10),
+    contextMessages: parseInt(process.env.CONTEXT_MESSAGES ?? "100", 10),
+    contextTokenBudget: parseInt(process.env.CONTEXT_TOKEN_BUDGET ?? "8000", 10),
+    summaryModel: process.env.SUMMARY_MODEL || "haiku",
     claudeMaxTurns: parseInt(process.env.CLAUDE_MAX_TURNS ?? "10", 10),
     claudeCwd: process.env.CLAUDE_CWD ?? process.cwd(),
     claudeModel: process.env.CLAUDE_MODEL || undefined,
+    claudeStrongModel: process.env.CLAUDE_STRONG_MODEL || "opus",
+    sessionTtlMs:
+      parseFloat(process.env.SESSION_TTL_HOURS ?? "24") * 60 * 60_000,
+    claudeMaxConcurrent: parseInt(process.env.CLAUDE_MAX_CONCURRENT ?? "3", 10),
+    userRateBurst: parseInt(process.env.USER_RATE_LIMIT_BURST ?? "5", 10),
+    userRatePerHour: parseFloat(process.env.USER_RATE_LIMIT_PER_HOUR ?? "20"),
+    channelRateBurst: parseInt(process.env.CHANNEL_RATE_LIMIT_BURST ?? "10", 10),
+    channelRatePerHour: parseFloat(process.env.CHANNEL_RATE_LIMIT_PER_HOUR ?? "60"),
     tasksChannel: process.env.TASKS_CHANNEL ?? "tasks",
     taskEmoji: process.env.TASK_EMOJI ?? "clipboard",
+    taskDueSoonMs:
+      parseFloat(process.env.TASK_DUE_SOON_HOURS ?? "24") * 60 * 60_000,
+    taskStates: parseTaskStates(
+      process.env.TASK_STATES ??
+        "working_on_it=in_progress,eyes=in_review,check=done,cross_mark=wont_do",
+    ),
     dbPath: process.env.DB_PATH ?? "/data/tasks.db",
+    policyFile: process.env.POLICY_FILE ?? "/data/policy.json",
+    profilesFile: process.env.PROFILES_FILE ?? "/data/profiles.json",
+    approvalTimeoutMs:
+      parseFloat(process.env.APPROVAL_TIMEOUT_MINUTES ?? "5") * 60_000,
+    showToolSummary: (process.env.SHOW_TOOL_SUMMARY ?? "true").toLowerCase() !== "false",
+    attachmentMaxBytes:
+      parseFloat(process.env.ATTACHMENT_MAX_MB ?? "10") * 1024 * 1024,
+    attachmentMaxCount: parseInt(process.env.ATTACHMENT_MAX_COUNT ?? "5", 10),
+    attachmentsDir:
+      process.env.ATTACHMENTS_DIR ?? join(tmpdir(), "zulip-claude-attachments"),
   };
 }
@@ -0,0 +1,277 @@
+import type { Config } from "./config.js";
+import { isSubscribed } from "./zulip.js";
+import type { ZulipClient, ZulipMessage } from "./zulip.js";
+import { messageMarkdown } from "./html-to-markdown.js";
+import { completeText } from "./claude.js";
+import {
+  getContextSummary,
+  recordClaudeUsage,
+  saveContextSummary,
+} from "./db.js";
+import type { ClaudeSessionRow } from "./db.js";
+
+export interface ConversationContext {
+  /** Context for the system prompt: summary, quoted and recent messages. */
+  text: string;
+  /** Number of messages included (quoted + recent). */
+  messageCount: number;
+  /**
+   * Messages that didn't fit the budget (oldest first). Pass them to
+   * `refreshContextSummary` once the answer is done.
+   */
+  overflow: ZulipMessage[];
+}
+
+/** Rough token estimate; good enough for budgeting prompt text. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Group lines (e.g. formatted messages) into chunks of roughly
+ * `maxTokens` each, for prompts too long to send at once.
+ */
+export function chunkByTokens(lines: string[], maxTokens: number): string[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let tokens = 0;
+  for (const line of lines) {
+    const t = estimateTokens(line);
+    if (current.length > 0 && tokens + t > maxTokens) {
+      chunks.push(current.join("\n"));
+      current = [];
+      tokens = 0;
+    }
+    current.push(line);
+    tokens += t;
+  }
+  if (current.length > 0) chunks.push(current.join("\n"));
+  return chunks;
+}
+
+/** Messages longer than this are collapsed to their head and tail. */
+const MAX_MESSAGE_CHARS = 2000;
+/** Code blocks longer than this many lines keep only their ends. */
+const MAX_CODE_LINES = 20;
+/** Refresh the rolling summary once this many unsummarised messages overflow. */
+const SUMMARY_REFRESH_MIN = 5;
+
+const QUOTED_LINK_RE = /\/(?:near|with)\/(\d+)/g;
+
+/** Zulip message line with its id and UTC time, e.g. `[#123 2026-01-05 14:03] Ann: hi`. */
+export function formatContextMessage(m: ZulipMessage): string {
+  const time = new Date(m.timestamp * 1000).toISOString().slice(0, 16).replace("T", " ");
+  const text = collapseLongText(messageMarkdown(m, { mentions: "keep" }));
+  return `[#${m.id} ${time}] ${m.sender_full_name}: ${text}`;
+}
+
+/**
+ * Shorten pasted logs and code: long fenced blocks keep their first and
+ * last lines, and anything still too long keeps its head and tail.
+ */
+export function collapseLongText(text: string): string {
+  let result = text.replace(
+    /^(`{3,}|~{3,})([^\n]*)\n([\s\S]*?)\n\1[ \t]*$/gm,
+    (whole, fence: string, info: string, body: string) => {
+      const lines = body.split("\n");
+      if (lines.length <= MAX_CODE_LINES) return whole;
+      const omitted = lines.length - 12;
+      return [
+        `${fence}${info}`,
+        ...lines.slice(0, 8),
+        `… (${omitted} lines omitted) …`,
+        ...lines.slice(-4),
+        fence,
+      ].join("\n");
+    },
+  );
+  if (result.length > MAX_MESSAGE_CHARS) {
+    const omitted = result.length - 1600;
+    result = `${result.slice(0, 1200)}\n… (${omitted} characters omitted) …\n${result.slice(-400)}`;
+  }
+  return result;
+}
+
+/**
+ * Build the conversation context for `question` within the configured
+ * token budget. In priority order it includes:
+ * 1. the topic's cached rolling summary (fresh sessions only);
+ * 2. messages the question links to or quotes (fetched if not recent,
+ *    and only when the asker can see them: see `canSee`);
+ * 3. recent messages not yet covered by the summary, newest first, until
+ *    the budget runs out.
+ *
+ * Only messages posted before the question are used. When resuming a
+ * session, only messages since its last turn are included, minus the
+ * bot's own replies (already part of the session).
+ */
+export async function buildContext(p: {
+  client: ZulipClient;
+  config: Config;
+  key: { channel: string; topic: string };
+  question: ZulipMessage;
+  messages: ZulipMessage[];
+  session: ClaudeSessionRow | undefined;
+  botEmail: string;
+}): Promise<ConversationContext> {
+  const { question, session } = p;
+  let remaining = p.config.contextTokenBudget;
+  const sections: string[] = [];
+
+  const summary = session ? undefined : getContextSummary(p.key.channel, p.key.topic);
+  if (summary) {
+    const block = `Summary of earlier messages in this conversation:\n${summary.summary}`;
+    sections.push(block);
+    remaining -= estimateTokens(block);
+  }
+
+  const earlier = p.messages.filter((m) => m.id < question.id);
+  const candidates = earlier
+    .filter((m) => !summary || m.id > summary.up_to_msg_id)
+    .filter(
+      (m) =>
+        !session || (m.id > session.last_msg_id && m.sender_email !== p.botEmail),
+    );
+
+  // Messages linked from the question (quote-replies link with /near/<id>)
+  const quotedIds = new Set(
+    [...question.content.matchAll(QUOTED_LINK_RE)].map((m) => Number(m[1])),
+  );
+  const quoted: string[] = [];
+  for (const id of quotedIds) {
+    let m = earlier.find((c) => c.id === id);
+    if (!m) {
+      // Fetched with the bot's credentials, so check the asker could read it
+      const fetched = await fetchMessage(p.client, id);
+      if (fetched && (await canSee(p.client, question, fetched))) m = fetched;
+    }
+    if (!m) continue;
+    const line = formatContextMessage(m);
+    if (estimateTokens(line) > remaining) continue;
+    quoted.push(line);
+    remaining -= estimateTokens(line);
+  }
+  if (quoted.length > 0) {
+    sections.push(`Messages referenced in the question:\n${quoted.join("\n")}`);
+  }
+
+  // Newest first; stop at the first message that doesn't fit
+  const recent: string[] = [];
+  let cut = candidates.length;
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    if (quotedIds.has(candidates[i].id)) {
+      cut = i;
+      continue;
+    }
+    const line = formatContextMessage(candidates[i]);
+    if (estimateTokens(line) > remaining) break;
+    recent.unshift(line);
+    remaining -= estimateTokens(line);
+    cut = i;
+  }
+  if (recent.length > 0) {
+    sections.push(
+      (summary || quoted.length > 0 ? "Recent messages:\n" : "") + recent.join("\n"),
+    );
+  }
+
+  return {
+    text: sections.join("\n\n"),
+    messageCount: quoted.length + recent.length,
+    overflow: candidates.slice(0, cut).filter((m) => !quotedIds.has(m.id)),
+  };
+}
+
+/**
+ * Whether the asker of `question` may see `message`: it's in the same
+ * channel, a channel they're subscribed to, or a DM they're part of.
+ */
+async function canSee(
+  client: ZulipClient,
+  question: ZulipMessage,
+  message: ZulipMessage,
+): Promise<boolean> {
+  if (message.type === "private") {
+    return message.display_recipient.some((r) => r.id === question.sender_id);
+  }
+  if (question.type === "stream" && question.display_recipient === message.display_recipient) {
+    return true;
+  }
+  return isSubscribed(client, question.sender_id, message.display_recipient);
+}
+
+async function fetchMessage(
+  client: ZulipClient,
+  id: number,
+): Promise<ZulipMessage | undefined> {
+  const res = await client
+    .callEndpoint(`/messages/${id}`, "GET", { apply_markdown: false })
+    .catch(() => undefined);
+  return res?.message as ZulipMessage | undefined;
+}
+
+/** Topics whose summary is being refreshed right now. */
+const refreshing = new Set<string>();
+
+/**
+ * Fold messages that overflowed the context budget into the topic's
+ * rolling summary, once enough of them aren't covered yet. Meant to run
+ * in the background after an answer; errors are logged, not thrown.
+ */
+export async function refreshContextSummary(
+  config: Config,
+  key: { channel: string; topic: string },
+  overflow: ZulipMessage[],
+): Promise<void> {
+  const existing = getContextSummary(key.channel, key.topic);
+  const fresh = overflow.filter((m) => m.id > (existing?.up_to_msg_id ?? 0));
+  if (fresh.length < SUMMARY_REFRESH_MIN) return;
+
+  const lockKey = `${key.channel}\0${key.topic}`;
+  if (refreshing.has(lockKey)) return;
+  refreshing.add(lockKey);
+
+  const startedAt = Date.now();
+  try {
+    const prompt = [
+      ...(existing ? ["Summary so far:", existing.summary, ""] : []),
+      "New messages:",
+      ...fresh.map(formatContextMessage),
+    ].join("\n");
+
+    const summary = await completeText(prompt, {
+      systemPrompt:
+        "You maintain a rolling summary of a Zulip conversation for an assistant that only sees recent messages. " +
+        "Merge the new messages into the summary so far. Keep decisions, open questions, facts, names, and message ids (#123) worth referring back to. " +
+        "Reply with the updated summary only, at most 250 words.",
+      model: config.summaryModel,
+      onUsage: (u) =>
+        recordClaudeUsage({
+          userName: "(context summary)",
+          channel: key.channel,
+          topic: key.topic,
+          model: u.model,
+          inputTokens: u.inputTokens,
+          outputTokens: u.outputTokens,
+          costUsd: u.costUsd,
+          durationMs: u.durationMs,
+          numTurns: u.numTurns,
+          success: true,
+        }),
+    });
+
+    saveContextSummary({
+      channel: key.channel,
+      topic: key.topic,
+      summary: summary.trim(),
+      upToMsgId: fresh[fresh.length - 1].id,
+    });
+    console.log(
+      `Updated context summary for ${key.channel || "DM"} > ${key.topic} (${fresh.length} messages, ${Date.now() - startedAt}ms)`,
+    );
+  } catch (err) {
+    console.error("Failed to refresh context summary:", err);
+  } finally {
+    refreshing.delete(lockKey);
+  }
+}
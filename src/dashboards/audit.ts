@@ -0,0 +1,88 @@
+import type { DashboardDef } from "./registry.js";
+import { getToolCallCounts, getToolCalls } from "../db.js";
+import type { ToolCallRow } from "../db.js";
+import { publicChannels } from "../zulip.js";
+
+const MAX_DISPLAY_CALLS = 20;
+
+/** Short one-line preview of a tool input, safe inside a code span. */
+function previewInput(input: string): string {
+  let preview = input;
+  try {
+    const parsed = JSON.parse(input) as Record<string, unknown>;
+    // Most tools have one interesting field; show it bare
+    const main =
+      parsed.command ?? parsed.pattern ?? parsed.file_path ?? parsed.query;
+    if (typeof main === "string") preview = main;
+  } catch {
+    // Not JSON (or truncated) — show as-is
+  }
+  preview = preview.replace(/\s+/g, " ").replace(/`/g, "'");
+  return preview.length > 80 ? `${preview.slice(0, 79)}…` : preview;
+}
+
+/**
+ * Render tool calls as a markdown list, newest first. Rows for which
+ * `redact` returns true show only who ran which tool, not where or what.
+ */
+export function renderToolCalls(
+  rows: ToolCallRow[],
+  realm: string,
+  redact?: (row: ToolCallRow) => boolean,
+): string {
+  if (rows.length === 0) return "*No tool calls recorded.*";
+
+  return rows
+    .map((r) => {
+      if (redact?.(r)) {
+        return `- \`${r.created_at}\` · **${r.user_name}** · *${r.channel ? "private channel" : "DM"}* · **${r.tool_name}**`;
+      }
+      const where = r.channel
+        ? `[#${r.channel} > ${r.topic}](${realm}/#narrow/channel/${encodeURIComponent(r.channel)}/topic/${encodeURIComponent(r.topic)}/near/${r.msg_id})`
+        : "DM";
+      const status = r.is_error ? " ⚠️" : "";
+      return `- \`${r.created_at}\` · **${r.user_name}** · ${where} · **${r.tool_name}**${status} (${r.duration_ms}ms) \`${previewInput(r.input)}\``;
+    })
+    .join("\n");
+}
+
+// ── Dashboard definition ─────────────────────────────────────────
+
+export const auditDef: DashboardDef = {
+  description: "Recent tool calls Claude made, and on whose behalf (admin)",
+  intervalMs: 5 * 60_000,
+  capability: "admin",
+
+  async fetch(_params, ctx, row) {
+    const counts = getToolCallCounts("-1 day");
+    const lines = [
+      "## Claude Tool Audit",
+      "*All times UTC · React :refresh: to refresh*",
+      "",
+      "### Last 24 hours",
+      "",
+    ];
+
+    if (counts.length === 0) {
+      lines.push("*No tool calls.*");
+    } else {
+      lines.push("| Tool | Calls | Errors |", "|---|---:|---:|");
+      for (const c of counts) {
+        lines.push(`| ${c.tool_name} | ${c.calls} | ${c.errors} |`);
+      }
+    }
+
+    // Everyone in the dashboard's channel sees it: hide DMs and other
+    // private channels
+    const visible = await publicChannels(ctx.client);
+    lines.push("", "### Most recent", "");
+    lines.push(
+      renderToolCalls(
+        getToolCalls({ limit: MAX_DISPLAY_CALLS }),
+        ctx.config.zulipRealm,
+        (r) => !r.channel || (r.channel !== row.channel && !visible?.has(r.channel)),
+      ),
+    );
+    return lines.join("\n");
+  },
+};
@@ -0,0 +1,110 @@
+import type { DashboardDef } from "./registry.js";
+import { getFeedbackTotals, getRecentFeedbackComments } from "../db.js";
+import type { FeedbackTotals } from "../db.js";
+import { publicChannels } from "../zulip.js";
+
+// ── Formatting helpers ───────────────────────────────────────────
+
+function satisfaction(up: number, down: number): string {
+  const total = up + down;
+  if (total === 0) return "–";
+  return `${Math.round((up / total) * 100)}%`;
+}
+
+/** Render feedback totals as a markdown table with a totals row. */
+function renderFeedbackTable(heading: string, rows: FeedbackTotals[]): string {
+  if (rows.length === 0) return "*No feedback yet.*";
+
+  const lines = [
+    `| ${heading} | 👍 | 👎 | Satisfaction |`,
+    "|---|---:|---:|---:|",
+  ];
+  let up = 0;
+  let down = 0;
+  for (const r of rows) {
+    lines.push(
+      `| ${r.label || "(direct messages)"} | ${r.up} | ${r.down} | ${satisfaction(r.up, r.down)} |`,
+    );
+    up += r.up;
+    down += r.down;
+  }
+  if (rows.length > 1) {
+    lines.push(`| **Total** | **${up}** | **${down}** | **${satisfaction(up, down)}** |`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Fold channels outside `visible` (other than the dashboard's own) into a
+ * single "(private channels)" row, so their names don't show.
+ */
+function foldPrivateChannels(
+  rows: FeedbackTotals[],
+  visible: Set<string> | null,
+  own: string,
+): FeedbackTotals[] {
+  const shown = rows.filter((r) => !r.label || r.label === own || visible?.has(r.label));
+  const hidden = rows.filter((r) => !shown.includes(r));
+  if (hidden.length === 0) return shown;
+  return [
+    ...shown,
+    {
+      label: "(private channels)",
+      up: hidden.reduce((n, r) => n + r.up, 0),
+      down: hidden.reduce((n, r) => n + r.down, 0),
+    },
+  ];
+}
+
+const MAX_COMMENT_LENGTH = 200;
+const RECENT_COMMENTS = 5;
+
+// ── Dashboard definition ─────────────────────────────────────────
+
+export const feedbackDef: DashboardDef = {
+  description: "Claude answer satisfaction by week, channel and model",
+  intervalMs: 30 * 60_000,
+
+  async fetch(_params, ctx, row) {
+    const now = new Date().toLocaleTimeString("en-US", {
+      hour: "2-digit",
+      minute: "2-digit",
+      hour12: true,
+      timeZone: "UTC",
+    });
+    const lines = ["## Answer Feedback", `*Updated ${now} UTC*`, ""];
+    // Everyone in the dashboard's channel sees it: hide the names and
+    // comments of DMs and other private channels
+    const visible = await publicChannels(ctx.client);
+
+    lines.push("### Last 8 weeks", "");
+    lines.push(renderFeedbackTable("Week", getFeedbackTotals("week", "-56 days")));
+    lines.push("", "### Last 30 days", "", "**Per channel**", "");
+    lines.push(
+      renderFeedbackTable(
+        "Channel",
+        foldPrivateChannels(getFeedbackTotals("channel", "-30 days"), visible, row.channel),
+      ),
+    );
+    lines.push("", "**Per model**", "");
+    lines.push(renderFeedbackTable("Model", getFeedbackTotals("model", "-30 days")));
+
+    const comments = getRecentFeedbackComments(RECENT_COMMENTS);
+    if (comments.length > 0) {
+      lines.push("", "### Recent comments", "");
+      for (const c of comments) {
+        if (!c.channel || (c.channel !== row.channel && !visible?.has(c.channel))) {
+          lines.push(`- *Comment in ${c.channel ? "a private channel" : "a DM"}* (${c.model})`);
+          continue;
+        }
+        const text =
+          c.comment && c.comment.length > MAX_COMMENT_LENGTH
+            ? `${c.comment.slice(0, MAX_COMMENT_LENGTH - 1)}…`
+            : c.comment;
+        lines.push(`- **${c.user_name}** (${c.channel || "DM"}, ${c.model}): ${text}`);
+      }
+    }
+
+    return lines.join("\n").trimEnd();
+  },
+};
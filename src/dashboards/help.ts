@@ -40,6 +40,19 @@ function buildHelp(): string {
     "Mention the bot with any question or request — it will respond using Claude with full conversation context. " +
       "Claude can also query Zulip directly (search messages, list channels/users, create channels, etc.).",
   );
+  lines.push(
+    "Each topic keeps its own Claude session, so follow-up questions remember earlier answers and tool results. " +
+      "Say `reset` to start a fresh session in the current topic.",
+  );
+  lines.push(
+    "Add `--profile <name>` to a question to use a different Claude profile (working directory, model and tools) than the channel's default.",
+  );
+  lines.push(
+    "To stop an answer in progress, react :stop_sign: on it or say `cancel` in the topic.",
+  );
+  lines.push(
+    "Not happy with an answer? React :repeat: on it to regenerate it, or :zap: to retry with a stronger model. Editing your question also refreshes the answer.",
+  );
 
   return lines.join("\n");
 }
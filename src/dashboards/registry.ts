@@ -1,14 +1,23 @@
 import type { ServiceContext } from "../services/types.js";
 import type { DashboardRow } from "../db.js";
+import type { Capability } from "../policy.js";
 import { helpDef } from "./help.js";
 import { rssDef } from "./rss.js";
+import { usageDef } from "./usage.js";
+import { auditDef } from "./audit.js";
+import { feedbackDef } from "./feedback.js";
+import { tasksDef } from "./tasks.js";
 
 export interface DashboardDef {
   description: string;
   /** Override the default 60s interval. */
   intervalMs?: number;
+  /** Capability needed to start it, on top of `manage_dashboards`. */
+  capability?: Capability;
   /** Usage hint shown in help, e.g. "rss <url>". Defaults to just the name. */
   usage?: string;
+  /** Also refresh right after any task changes (see `onTaskChange`). */
+  refreshOnTaskChange?: boolean;
   /** Validate params before starting. Return error message or null if OK. */
   validateParams?(params: string): string | null;
   /** Called each tick; returns the markdown content for the pinned message. */
@@ -46,3 +55,7 @@ dashboardRegistry.set("clock", {
 
 dashboardRegistry.set("help", helpDef);
 dashboardRegistry.set("rss", rssDef);
+dashboardRegistry.set("usage", usageDef);
+dashboardRegistry.set("audit", auditDef);
+dashboardRegistry.set("feedback", feedbackDef);
+dashboardRegistry.set("tasks", tasksDef);
@@ -0,0 +1,239 @@
+import type { DashboardDef } from "./registry.js";
+import type { Config } from "../config.js";
+import type { ServiceContext } from "../services/types.js";
+import { getAssignees, getTasksForBoard } from "../db.js";
+import type { AssigneeRow, TaskRow, TaskStatus } from "../db.js";
+import {
+  PRIORITY_LABELS,
+  isClosed,
+  renderLabels,
+  statusEmoji,
+  statusLabel,
+  taskMessageLink,
+} from "../services/tasks.js";
+
+/** Closed tasks stay on the board this long after closing. */
+const CLOSED_VISIBLE_DAYS = 7;
+/** Tasks listed per column; the rest are only counted. */
+const MAX_COLUMN_TASKS = 25;
+const PREVIEW_LENGTH = 60;
+
+const PRIORITY_ORDER: Record<string, number> = { high: 0, med: 1, low: 2 };
+
+// ── Filters ──────────────────────────────────────────────────────
+
+interface BoardFilter {
+  /** "@<user id>" (from `@me` or a mention), "none" for unassigned, or a name. */
+  assignee?: string;
+  /** Workflow states, plus "open" and "closed" for the groups. */
+  statuses?: string[];
+  labels?: string[];
+}
+
+const FILTER_RE = /^(assignee|status|label)=("[^"]+"|\S+)$/i;
+
+const FILTER_USAGE =
+  "Usage: `dashboard start tasks [assignee=@me|@user|name|none] [status=open|closed|<state>,...] [label=<name>,...]`";
+
+/** Parse `key=value` filters; `"..."` quotes a value with spaces. */
+function parseFilter(params: string): BoardFilter | { error: string } {
+  const filter: BoardFilter = {};
+  const tokens = params.match(/\w+="[^"]+"|\S+/g) ?? [];
+  for (const token of tokens) {
+    const m = FILTER_RE.exec(token);
+    if (!m) return { error: `Unknown filter \`${token}\`. ${FILTER_USAGE}` };
+    const value = m[2].replace(/^"|"$/g, "");
+    const values = value.toLowerCase().split(",").filter(Boolean);
+    switch (m[1].toLowerCase()) {
+      case "assignee":
+        filter.assignee = value;
+        break;
+      case "status":
+        filter.statuses = values;
+        break;
+      case "label":
+        filter.labels = values;
+        break;
+    }
+  }
+  return filter;
+}
+
+function matchesAssignee(assignees: AssigneeRow[], assignee: string): boolean {
+  if (assignee.toLowerCase() === "none") return assignees.length === 0;
+  const id = /^@(\d+)$/.exec(assignee);
+  if (id) return assignees.some((a) => a.user_id === Number(id[1]));
+  const wanted = assignee.toLowerCase();
+  // A full name, or any one part of it
+  return assignees.some((a) => {
+    const name = a.user_name.toLowerCase();
+    return name === wanted || name.split(/\s+/).includes(wanted);
+  });
+}
+
+function matchesStatus(status: TaskStatus, statuses: string[]): boolean {
+  return statuses.some((s) =>
+    s === "open" ? !isClosed(status) : s === "closed" ? isClosed(status) : s === status,
+  );
+}
+
+/** Name of the user an `@<id>` filter names, from the board or else Zulip. */
+async function assigneeName(
+  ctx: ServiceContext,
+  userId: number,
+  tasks: BoardTask[],
+): Promise<string> {
+  const known = tasks.flatMap((t) => t.assignees).find((a) => a.user_id === userId);
+  if (known) return known.user_name;
+  const res = await ctx.client.callEndpoint(`/users/${userId}`, "GET").catch(() => undefined);
+  return (res?.user as { full_name: string } | undefined)?.full_name ?? `user ${userId}`;
+}
+
+async function describeFilter(
+  filter: BoardFilter,
+  tasks: BoardTask[],
+  ctx: ServiceContext,
+): Promise<string> {
+  const parts: string[] = [];
+  if (filter.assignee) {
+    const id = /^@(\d+)$/.exec(filter.assignee);
+    const name = id ? await assigneeName(ctx, Number(id[1]), tasks) : filter.assignee;
+    parts.push(`assignee: ${name}`);
+  }
+  if (filter.statuses) parts.push(`status: ${filter.statuses.join(", ")}`);
+  if (filter.labels) parts.push(`label: ${filter.labels.join(", ")}`);
+  return parts.join(" · ");
+}
+
+// ── Rendering ────────────────────────────────────────────────────
+
+interface BoardTask {
+  task: TaskRow;
+  assignees: AssigneeRow[];
+}
+
+/** Columns in workflow order: todo, configured states, then closed ones. */
+function columnOrder(config: Config, tasks: BoardTask[]): TaskStatus[] {
+  const order: TaskStatus[] = ["todo"];
+  for (const { status } of config.taskStates) {
+    if (!isClosed(status) && !order.includes(status)) order.push(status);
+  }
+  // States no longer configured but still held by some task
+  for (const { task } of tasks) {
+    if (!isClosed(task.status) && !order.includes(task.status)) order.push(task.status);
+  }
+  return [...order, "done", "wont_do"];
+}
+
+function compareTasks(a: TaskRow, b: TaskRow): number {
+  const pa = a.priority ? PRIORITY_ORDER[a.priority] : 3;
+  const pb = b.priority ? PRIORITY_ORDER[b.priority] : 3;
+  if (pa !== pb) return pa - pb;
+  if (a.due_at !== b.due_at) {
+    if (!a.due_at) return 1;
+    if (!b.due_at) return -1;
+    return a.due_at < b.due_at ? -1 : 1;
+  }
+  return a.id - b.id;
+}
+
+function renderBoardTask(task: TaskRow, config: Config): string {
+  const oneLine = task.content.replace(/\s+/g, " ").trim();
+  const preview =
+    oneLine.length > PREVIEW_LENGTH ? `${oneLine.slice(0, PREVIEW_LENGTH - 1)}…` : oneLine;
+  const link = taskMessageLink(task, config);
+  const meta = [
+    task.priority ? PRIORITY_LABELS[task.priority] : "",
+    task.due_at
+      ? `due <time:${task.due_at}>${!isClosed(task.status) && Date.parse(task.due_at) < Date.now() ? " ⚠️" : ""}`
+      : "",
+    task.labels ? renderLabels(task.labels) : "",
+  ].filter(Boolean);
+  const suffix = meta.length > 0 ? ` — ${meta.join(" · ")}` : "";
+  return link
+    ? `- [#${task.id}](${link}) ${preview}${suffix}`
+    : `- #${task.id} ${preview}${suffix}`;
+}
+
+/** One column: its tasks grouped by assignee, unassigned last. */
+function renderColumn(status: TaskStatus, tasks: BoardTask[], config: Config): string {
+  const lines = [`#### ${statusEmoji(status)} ${statusLabel(status)} (${tasks.length})`];
+  if (tasks.length === 0) {
+    lines.push("*Nothing here.*");
+    return lines.join("\n");
+  }
+
+  const shown = [...tasks].sort((a, b) => compareTasks(a.task, b.task)).slice(0, MAX_COLUMN_TASKS);
+  const groups = new Map<string, TaskRow[]>();
+  for (const { task, assignees } of shown) {
+    const names = assignees.length > 0 ? assignees.map((a) => a.user_name) : [""];
+    for (const name of names) {
+      const list = groups.get(name) ?? [];
+      list.push(task);
+      groups.set(name, list);
+    }
+  }
+  const names = [...groups.keys()].filter(Boolean).sort((a, b) => a.localeCompare(b));
+  if (groups.has("")) names.push("");
+
+  for (const name of names) {
+    lines.push(`**${name || "Unassigned"}**`);
+    for (const task of groups.get(name)!) lines.push(renderBoardTask(task, config));
+  }
+  if (tasks.length > shown.length) {
+    lines.push(`*…and ${tasks.length - shown.length} more*`);
+  }
+  return lines.join("\n");
+}
+
+// ── Dashboard definition ─────────────────────────────────────────
+
+export const tasksDef: DashboardDef = {
+  description: "Task board for this channel: tasks by state and assignee",
+  usage: "tasks [assignee=@me|@user|name] [status=open|<state>] [label=<name>]",
+  // Task changes refresh the board right away; the interval keeps due markers current
+  intervalMs: 5 * 60_000,
+  refreshOnTaskChange: true,
+
+  validateParams(params: string): string | null {
+    const filter = parseFilter(params);
+    return "error" in filter ? filter.error : null;
+  },
+
+  async fetch(params, ctx, row) {
+    const filter = parseFilter(params);
+    if ("error" in filter) return filter.error;
+
+    const all = getTasksForBoard(row.channel, CLOSED_VISIBLE_DAYS).map((task) => ({
+      task,
+      assignees: getAssignees(task.id),
+    }));
+    const tasks = all.filter(
+      ({ task, assignees }) =>
+        (!filter.assignee || matchesAssignee(assignees, filter.assignee)) &&
+        (!filter.statuses || matchesStatus(task.status, filter.statuses)) &&
+        (!filter.labels || filter.labels.some((l) => task.labels.split(",").includes(l))),
+    );
+
+    const columns = columnOrder(ctx.config, tasks).filter(
+      (status) => !filter.statuses || matchesStatus(status, filter.statuses),
+    );
+    const open = tasks.filter(({ task }) => !isClosed(task.status)).length;
+    const closed = tasks.length - open;
+
+    const sections = [`### 🗂️ Task board: #**${row.channel}**`];
+    const description = await describeFilter(filter, all, ctx);
+    if (description) sections.push(`*Filtered by ${description}*`);
+    sections.push(
+      `**${open}** open · **${closed}** closed in the last ${CLOSED_VISIBLE_DAYS} days`,
+    );
+    for (const status of columns) {
+      const inColumn = tasks.filter(({ task }) => task.status === status);
+      // Closed columns only appear when they have something to show
+      if (inColumn.length === 0 && isClosed(status)) continue;
+      sections.push(renderColumn(status, inColumn, ctx.config));
+    }
+    sections.push(`*Updated <time:${new Date().toISOString()}>*`);
+    return sections.join("\n\n");
+  },
+};
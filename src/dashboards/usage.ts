@@ -0,0 +1,111 @@
+import type { DashboardDef } from "./registry.js";
+import { getUsageTotals } from "../db.js";
+import type { UsageTotals } from "../db.js";
+import { publicChannels } from "../zulip.js";
+
+// ── Formatting helpers ───────────────────────────────────────────
+
+export function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}k`;
+  return String(n);
+}
+
+export function formatCost(usd: number): string {
+  return `$${usd.toFixed(usd >= 10 ? 2 : 4)}`;
+}
+
+/** Render usage totals as a markdown table with a totals row. */
+export function renderUsageTable(heading: string, rows: UsageTotals[]): string {
+  if (rows.length === 0) return "*No Claude calls.*";
+
+  const lines = [
+    `| ${heading} | Calls | Failed | Input | Output | Cost |`,
+    "|---|---:|---:|---:|---:|---:|",
+  ];
+  const total = { calls: 0, failures: 0, input: 0, output: 0, cost: 0 };
+  for (const r of rows) {
+    lines.push(
+      `| ${r.label || "(direct messages)"} | ${r.calls} | ${r.failures} | ${formatTokens(r.input_tokens)} | ${formatTokens(r.output_tokens)} | ${formatCost(r.cost_usd)} |`,
+    );
+    total.calls += r.calls;
+    total.failures += r.failures;
+    total.input += r.input_tokens;
+    total.output += r.output_tokens;
+    total.cost += r.cost_usd;
+  }
+  if (rows.length > 1) {
+    lines.push(
+      `| **Total** | **${total.calls}** | **${total.failures}** | **${formatTokens(total.input)}** | **${formatTokens(total.output)}** | **${formatCost(total.cost)}** |`,
+    );
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Fold channels outside `visible` (other than the dashboard's own) into a
+ * single "(private channels)" row, so their names don't show.
+ */
+function foldPrivateChannels(
+  rows: UsageTotals[],
+  visible: Set<string> | null,
+  own: string,
+): UsageTotals[] {
+  const shown = rows.filter((r) => !r.label || r.label === own || visible?.has(r.label));
+  const hidden = rows.filter((r) => !shown.includes(r));
+  if (hidden.length === 0) return shown;
+  const sum = (key: Exclude<keyof UsageTotals, "label">) =>
+    hidden.reduce((n, r) => n + r[key], 0);
+  return [
+    ...shown,
+    {
+      label: "(private channels)",
+      calls: sum("calls"),
+      failures: sum("failures"),
+      input_tokens: sum("input_tokens"),
+      output_tokens: sum("output_tokens"),
+      cost_usd: sum("cost_usd"),
+    },
+  ];
+}
+
+// ── Dashboard definition ─────────────────────────────────────────
+
+const PERIODS: Array<{ title: string; since: string }> = [
+  { title: "Today", since: "start of day" },
+  { title: "Last 7 days", since: "-7 days" },
+];
+
+export const usageDef: DashboardDef = {
+  description: "Claude token & cost usage per user and channel",
+  intervalMs: 10 * 60_000,
+
+  async fetch(_params, ctx, row) {
+    const now = new Date().toLocaleTimeString("en-US", {
+      hour: "2-digit",
+      minute: "2-digit",
+      hour12: true,
+      timeZone: "UTC",
+    });
+    const lines = ["## Claude Usage", `*Updated ${now} UTC*`, ""];
+    // Everyone in the dashboard's channel sees it: hide the names of
+    // other private channels
+    const visible = await publicChannels(ctx.client);
+
+    for (const period of PERIODS) {
+      lines.push(`### ${period.title}`, "");
+      lines.push("**Per user**", "");
+      lines.push(renderUsageTable("User", getUsageTotals("user", period.since)));
+      lines.push("", "**Per channel**", "");
+      lines.push(
+        renderUsageTable(
+          "Channel",
+          foldPrivateChannels(getUsageTotals("channel", period.since), visible, row.channel),
+        ),
+      );
+      lines.push("");
+    }
+
+    return lines.join("\n").trimEnd();
+  },
+};
@@ -5,7 +5,7 @@ export interface TaskRow {
   content: string;
   creator_name: string;
   creator_user_id: number | null;
-  status: "open" | "done";
+  status: TaskStatus;
   source_channel: string;
   source_topic: string;
   source_msg_id: number;
@@ -16,6 +16,35 @@ export interface TaskRow {
   created_at: string;
   completed_at: string | null;
   completed_by: string | null;
+  /** ISO timestamp the task is due, if any. */
+  due_at: string | null;
+  priority: TaskPriority | null;
+  /** Comma-separated lowercase labels, '' if none. */
+  labels: string;
+  due_soon_notified: number; // 0 | 1
+  overdue_notified: number; // 0 | 1
+}
+
+export type TaskPriority = "high" | "med" | "low";
+
+/**
+ * Workflow state: "todo", "done", "wont_do", or any state configured in
+ * `TASK_STATES` (by default "in_progress" and "in_review").
+ */
+export type TaskStatus = string;
+
+/** States that close a task (no more due date notifications). */
+export const CLOSED_TASK_STATUSES: readonly TaskStatus[] = ["done", "wont_do"];
+
+export interface TaskEventRow {
+  id: number;
+  task_id: number;
+  /** Null for the event that created the task. */
+  from_status: TaskStatus | null;
+  to_status: TaskStatus;
+  actor_name: string;
+  actor_id: number | null;
+  created_at: string;
 }
 
 export interface AssigneeRow {
@@ -26,6 +55,16 @@ export interface AssigneeRow {
   assigned_at: string;
 }
 
+export interface TaskCommentRow {
+  id: number;
+  task_id: number;
+  msg_id: number;
+  author_name: string;
+  author_id: number | null;
+  content: string;
+  created_at: string;
+}
+
 export interface DashboardRow {
   id: number;
   name: string;
@@ -38,6 +77,147 @@ export interface DashboardRow {
   created_at: string;
 }
 
+export interface DigestRow {
+  id: number;
+  /** Channel whose activity is summarised. */
+  channel: string;
+  target_channel: string;
+  target_topic: string;
+  /** Canonical schedule text, e.g. "weekly mon 09:00" (see time-parse.ts). */
+  schedule: string;
+  created_by: string;
+  last_run_at: string | null;
+  created_at: string;
+}
+
+export interface ReminderRow {
+  id: number;
+  user_id: number;
+  user_name: string;
+  message: string;
+  /** Delivery channel and topic; empty channel means a DM to the user. */
+  channel: string;
+  topic: string;
+  /** ISO timestamp of the next delivery. */
+  due_at: string;
+  /** Canonical schedule text for recurring reminders (see time-parse.ts). */
+  schedule: string | null;
+  created_at: string;
+}
+
+export interface ClaudeSessionRow {
+  id: number;
+  channel: string;
+  topic: string;
+  session_id: string;
+  profile: string;
+  last_msg_id: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ClaudeAnswerRow {
+  id: number;
+  question_msg_id: number;
+  answer_msg_id: number;
+  channel: string;
+  topic: string;
+  user_name: string;
+  user_id: number | null;
+  profile: string;
+  question: string;
+  model: string;
+  context_messages: number;
+  tool_count: number;
+  /** Comma-separated ids of the messages an over-long answer continues in. */
+  extra_msg_ids: string;
+  orphaned: number; // 0 | 1
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AnswerFeedbackRow {
+  id: number;
+  answer_msg_id: number;
+  user_name: string;
+  user_id: number | null;
+  rating: 1 | -1;
+  comment: string | null;
+  channel: string;
+  topic: string;
+  question: string;
+  model: string;
+  context_messages: number;
+  tool_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FeedbackTotals {
+  /** Week, channel or model, depending on the grouping. */
+  label: string;
+  up: number;
+  down: number;
+}
+
+export interface ContextSummaryRow {
+  id: number;
+  channel: string;
+  topic: string;
+  summary: string;
+  /** Newest message id the summary covers. */
+  up_to_msg_id: number;
+  updated_at: string;
+}
+
+export interface UsageTotals {
+  /** User name or channel, depending on the grouping. */
+  label: string;
+  calls: number;
+  failures: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+}
+
+export interface WriteApprovalRow {
+  id: number;
+  tool: string;
+  params: string;
+  requester_name: string;
+  requester_id: number | null;
+  channel: string;
+  topic: string;
+  card_msg_id: number;
+  status:
+    | "pending"
+    | "approved"
+    | "rejected"
+    | "expired"
+    | "cancelled"
+    | "executed"
+    | "failed";
+  decided_by: string | null;
+  result: string | null;
+  created_at: string;
+  decided_at: string | null;
+}
+
+export interface ToolCallRow {
+  id: number;
+  user_name: string;
+  user_id: number | null;
+  channel: string;
+  topic: string;
+  msg_id: number;
+  tool_name: string;
+  input: string;
+  output: string;
+  duration_ms: number;
+  is_error: number; // 0 | 1
+  created_at: string;
+}
+
 let db: Database.Database;
 
 export function initDatabase(dbPath: string): void {
@@ -51,7 +231,7 @@ export function initDatabase(dbPath: string): void {
       content         TEXT    NOT NULL,
       creator_name    TEXT    NOT NULL,
       creator_user_id INTEGER,
-      status          TEXT    NOT NULL DEFAULT 'open',
+      status          TEXT    NOT NULL DEFAULT 'todo',
       source_channel  TEXT    NOT NULL,
       source_topic    TEXT    NOT NULL,
       source_msg_id   INTEGER NOT NULL UNIQUE,
@@ -73,6 +253,30 @@ export function initDatabase(dbPath: string): void {
       UNIQUE(task_id, user_id)
     );
 
+    CREATE TABLE IF NOT EXISTS task_events (
+      id          INTEGER PRIMARY KEY AUTOINCREMENT,
+      task_id     INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+      from_status TEXT,
+      to_status   TEXT    NOT NULL,
+      actor_name  TEXT    NOT NULL,
+      actor_id    INTEGER,
+      created_at  TEXT    NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_task_events_task ON task_events(task_id);
+
+    CREATE TABLE IF NOT EXISTS task_comments (
+      id          INTEGER PRIMARY KEY AUTOINCREMENT,
+      task_id     INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+      msg_id      INTEGER NOT NULL UNIQUE,
+      author_name TEXT    NOT NULL,
+      author_id   INTEGER,
+      content     TEXT    NOT NULL,
+      created_at  TEXT    NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_task_comments_task ON task_comments(task_id);
+
     CREATE TABLE IF NOT EXISTS dashboards (
       id          INTEGER PRIMARY KEY AUTOINCREMENT,
       name        TEXT    NOT NULL,
@@ -93,12 +297,163 @@ export function initDatabase(dbPath: string): void {
       seen_at      TEXT    NOT NULL DEFAULT (datetime('now')),
       UNIQUE(dashboard_id, item_guid)
     );
+
+    CREATE TABLE IF NOT EXISTS digests (
+      id             INTEGER PRIMARY KEY AUTOINCREMENT,
+      channel        TEXT    NOT NULL,
+      target_channel TEXT    NOT NULL,
+      target_topic   TEXT    NOT NULL,
+      schedule       TEXT    NOT NULL,
+      created_by     TEXT    NOT NULL,
+      last_run_at    TEXT,
+      created_at     TEXT    NOT NULL DEFAULT (datetime('now')),
+      UNIQUE(channel, target_channel, target_topic, schedule)
+    );
+
+    CREATE TABLE IF NOT EXISTS reminders (
+      id         INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id    INTEGER NOT NULL,
+      user_name  TEXT    NOT NULL,
+      message    TEXT    NOT NULL,
+      channel    TEXT    NOT NULL DEFAULT '',
+      topic      TEXT    NOT NULL DEFAULT '',
+      due_at     TEXT    NOT NULL,
+      schedule   TEXT,
+      created_at TEXT    NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_reminders_user ON reminders(user_id);
+
+    CREATE TABLE IF NOT EXISTS claude_sessions (
+      id          INTEGER PRIMARY KEY AUTOINCREMENT,
+      channel     TEXT    NOT NULL,
+      topic       TEXT    NOT NULL,
+      session_id  TEXT    NOT NULL,
+      profile     TEXT    NOT NULL DEFAULT 'default',
+      last_msg_id INTEGER NOT NULL DEFAULT 0,
+      created_at  TEXT    NOT NULL DEFAULT (datetime('now')),
+      updated_at  TEXT    NOT NULL DEFAULT (datetime('now')),
+      UNIQUE(channel, topic)
+    );
+
+    CREATE TABLE IF NOT EXISTS claude_answers (
+      id              INTEGER PRIMARY KEY AUTOINCREMENT,
+      question_msg_id INTEGER NOT NULL UNIQUE,
+      answer_msg_id   INTEGER NOT NULL,
+      channel         TEXT    NOT NULL,
+      topic           TEXT    NOT NULL,
+      user_name       TEXT    NOT NULL,
+      user_id         INTEGER,
+      profile         TEXT    NOT NULL DEFAULT 'default',
+      question        TEXT    NOT NULL DEFAULT '',
+      model           TEXT    NOT NULL DEFAULT '',
+      context_messages INTEGER NOT NULL DEFAULT 0,
+      tool_count      INTEGER NOT NULL DEFAULT 0,
+      orphaned        INTEGER NOT NULL DEFAULT 0,
+      created_at      TEXT    NOT NULL DEFAULT (datetime('now')),
+      updated_at      TEXT    NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_claude_answers_answer ON claude_answers(answer_msg_id);
+
+    CREATE TABLE IF NOT EXISTS answer_feedback (
+      id               INTEGER PRIMARY KEY AUTOINCREMENT,
+      answer_msg_id    INTEGER NOT NULL,
+      user_name        TEXT    NOT NULL,
+      user_id          INTEGER,
+      rating           INTEGER NOT NULL,
+      comment          TEXT,
+      channel          TEXT    NOT NULL,
+      topic            TEXT    NOT NULL,
+      question         TEXT    NOT NULL,
+      model            TEXT    NOT NULL,
+      context_messages INTEGER NOT NULL DEFAULT 0,
+      tool_count       INTEGER NOT NULL DEFAULT 0,
+      created_at       TEXT    NOT NULL DEFAULT (datetime('now')),
+      updated_at       TEXT    NOT NULL DEFAULT (datetime('now')),
+      UNIQUE(answer_msg_id, user_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS context_summaries (
+      id           INTEGER PRIMARY KEY AUTOINCREMENT,
+      channel      TEXT    NOT NULL,
+      topic        TEXT    NOT NULL,
+      summary      TEXT    NOT NULL,
+      up_to_msg_id INTEGER NOT NULL,
+      updated_at   TEXT    NOT NULL DEFAULT (datetime('now')),
+      UNIQUE(channel, topic)
+    );
+
+    CREATE TABLE IF NOT EXISTS claude_usage (
+      id            INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_name     TEXT    NOT NULL,
+      user_id       INTEGER,
+      channel       TEXT    NOT NULL,
+      topic         TEXT    NOT NULL,
+      model         TEXT    NOT NULL,
+      input_tokens  INTEGER NOT NULL DEFAULT 0,
+      output_tokens INTEGER NOT NULL DEFAULT 0,
+      cost_usd      REAL    NOT NULL DEFAULT 0,
+      duration_ms   INTEGER NOT NULL DEFAULT 0,
+      num_turns     INTEGER NOT NULL DEFAULT 0,
+      success       INTEGER NOT NULL,
+      error         TEXT,
+      created_at    TEXT    NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_claude_usage_created ON claude_usage(created_at);
+
+    CREATE TABLE IF NOT EXISTS tool_calls (
+      id          INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_name   TEXT    NOT NULL,
+      user_id     INTEGER,
+      channel     TEXT    NOT NULL,
+      topic       TEXT    NOT NULL,
+      msg_id      INTEGER NOT NULL,
+      tool_name   TEXT    NOT NULL,
+      input       TEXT    NOT NULL,
+      output      TEXT    NOT NULL,
+      duration_ms INTEGER NOT NULL DEFAULT 0,
+      is_error    INTEGER NOT NULL DEFAULT 0,
+      created_at  TEXT    NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_tool_calls_user ON tool_calls(user_id);
+    CREATE INDEX IF NOT EXISTS idx_tool_calls_topic ON tool_calls(channel, topic);
+
+    CREATE TABLE IF NOT EXISTS write_approvals (
+      id             INTEGER PRIMARY KEY AUTOINCREMENT,
+      tool           TEXT    NOT NULL,
+      params         TEXT    NOT NULL,
+      requester_name TEXT    NOT NULL,
+      requester_id   INTEGER,
+      channel        TEXT    NOT NULL,
+      topic          TEXT    NOT NULL,
+      card_msg_id    INTEGER NOT NULL,
+      status         TEXT    NOT NULL DEFAULT 'pending',
+      decided_by     TEXT,
+      result         TEXT,
+      created_at     TEXT    NOT NULL DEFAULT (datetime('now')),
+      decided_at     TEXT
+    );
   `);
 
   // ── Idempotent migrations for existing databases ───────────────
   const migrations = [
     "ALTER TABLE dashboards ADD COLUMN params TEXT NOT NULL DEFAULT ''",
     "ALTER TABLE dashboards ADD COLUMN bootstrapped INTEGER NOT NULL DEFAULT 0",
+    "ALTER TABLE claude_sessions ADD COLUMN profile TEXT NOT NULL DEFAULT 'default'",
+    "ALTER TABLE claude_answers ADD COLUMN question TEXT NOT NULL DEFAULT ''",
+    "ALTER TABLE claude_answers ADD COLUMN model TEXT NOT NULL DEFAULT ''",
+    "ALTER TABLE claude_answers ADD COLUMN context_messages INTEGER NOT NULL DEFAULT 0",
+    "ALTER TABLE claude_answers ADD COLUMN tool_count INTEGER NOT NULL DEFAULT 0",
+    "ALTER TABLE claude_answers ADD COLUMN extra_msg_ids TEXT NOT NULL DEFAULT ''",
+    "ALTER TABLE tasks ADD COLUMN due_at TEXT",
+    "ALTER TABLE tasks ADD COLUMN priority TEXT",
+    "ALTER TABLE tasks ADD COLUMN due_soon_notified INTEGER NOT NULL DEFAULT 0",
+    "ALTER TABLE tasks ADD COLUMN overdue_notified INTEGER NOT NULL DEFAULT 0",
+    "ALTER TABLE tasks ADD COLUMN labels TEXT NOT NULL DEFAULT ''",
+    "UPDATE tasks SET status = 'todo' WHERE status = 'open'",
   ];
   for (const sql of migrations) {
     try { db.exec(sql); } catch { /* column already exists */ }
@@ -113,12 +468,15 @@ export function createTask(params: {
   sourceTopic: string;
   sourceMsgId: number;
   ownTopic: boolean;
+  dueAt?: string;
+  priority?: TaskPriority;
+  labels?: string[];
 }): number {
   const stmt = db.prepare(`
-    INSERT INTO tasks (content, creator_name, creator_user_id, source_channel, source_topic, source_msg_id, own_topic)
-    VALUES (@content, @creatorName, @creatorUserId, @sourceChannel, @sourceTopic, @sourceMsgId, @ownTopic)
+    INSERT INTO tasks (content, creator_name, creator_user_id, status, source_channel, source_topic, source_msg_id, own_topic, due_at, priority, labels)
+    VALUES (@content, @creatorName, @creatorUserId, 'todo', @sourceChannel, @sourceTopic, @sourceMsgId, @ownTopic, @dueAt, @priority, @labels)
   `);
-  const result = stmt.run({
+  const insert = () => stmt.run({
     content: params.content,
     creatorName: params.creatorName,
     creatorUserId: params.creatorUserId ?? null,
@@ -126,8 +484,20 @@ export function createTask(params: {
     sourceTopic: params.sourceTopic,
     sourceMsgId: params.sourceMsgId,
     ownTopic: params.ownTopic ? 1 : 0,
+    dueAt: params.dueAt ?? null,
+    priority: params.priority ?? null,
+    labels: (params.labels ?? []).join(","),
   });
-  return result.lastInsertRowid as number;
+  const taskId = db.transaction(() => {
+    const id = insert().lastInsertRowid as number;
+    recordTaskEvent(id, null, "todo", {
+      name: params.creatorName,
+      id: params.creatorUserId,
+    });
+    return id;
+  })();
+  notifyTaskChange(taskId);
+  return taskId;
 }
 
 export function getTaskById(id: number): TaskRow | undefined {
@@ -157,18 +527,127 @@ export function updateTaskMsgRef(
   db.prepare(
     "UPDATE tasks SET task_channel = ?, task_topic = ?, task_msg_id = ? WHERE id = ?",
   ).run(channel, topic, msgId, taskId);
+  notifyTaskChange(taskId);
 }
 
-export function completeTask(taskId: number, completedBy: string): void {
+function recordTaskEvent(
+  taskId: number,
+  from: TaskStatus | null,
+  to: TaskStatus,
+  actor: { name: string; id?: number },
+): void {
   db.prepare(
-    "UPDATE tasks SET status = 'done', completed_at = datetime('now'), completed_by = ? WHERE id = ?",
-  ).run(completedBy, taskId);
+    "INSERT INTO task_events (task_id, from_status, to_status, actor_name, actor_id) VALUES (?, ?, ?, ?, ?)",
+  ).run(taskId, from, to, actor.name, actor.id ?? null);
 }
 
-export function reopenTask(taskId: number): void {
-  db.prepare(
-    "UPDATE tasks SET status = 'open', completed_at = NULL, completed_by = NULL WHERE id = ?",
-  ).run(taskId);
+/**
+ * Move a task to another workflow state and record the transition.
+ * Closing states set completed_at/completed_by; other states clear them.
+ */
+export function setTaskStatus(
+  taskId: number,
+  status: TaskStatus,
+  actor: { name: string; id?: number },
+): void {
+  const changed = db.transaction(() => {
+    const task = getTaskById(taskId);
+    if (!task || task.status === status) return false;
+    if (CLOSED_TASK_STATUSES.includes(status)) {
+      db.prepare(
+        "UPDATE tasks SET status = ?, completed_at = datetime('now'), completed_by = ? WHERE id = ?",
+      ).run(status, actor.name, taskId);
+    } else {
+      db.prepare(
+        "UPDATE tasks SET status = ?, completed_at = NULL, completed_by = NULL WHERE id = ?",
+      ).run(status, taskId);
+    }
+    recordTaskEvent(taskId, task.status, status, actor);
+    return true;
+  })();
+  if (changed) notifyTaskChange(taskId);
+}
+
+/** A task's state transitions, oldest first. */
+export function getTaskEvents(taskId: number): TaskEventRow[] {
+  return db
+    .prepare("SELECT * FROM task_events WHERE task_id = ? ORDER BY id")
+    .all(taskId) as TaskEventRow[];
+}
+
+/** Unclosed tasks due by `before` (ISO) whose "due soon" DM hasn't gone out. */
+export function getTasksDueSoon(before: string): TaskRow[] {
+  return db
+    .prepare(`
+      SELECT * FROM tasks
+      WHERE status NOT IN ('done', 'wont_do') AND due_at IS NOT NULL AND due_at <= ?
+        AND due_soon_notified = 0
+    `)
+    .all(before) as TaskRow[];
+}
+
+/** Unclosed tasks past due at `now` (ISO) that haven't had an overdue notice. */
+export function getOverdueTasks(now: string): TaskRow[] {
+  return db
+    .prepare(`
+      SELECT * FROM tasks
+      WHERE status NOT IN ('done', 'wont_do') AND due_at IS NOT NULL AND due_at <= ?
+        AND overdue_notified = 0
+    `)
+    .all(now) as TaskRow[];
+}
+
+export function markTaskNotified(taskId: number, kind: "due_soon" | "overdue"): void {
+  const column = kind === "due_soon" ? "due_soon_notified" : "overdue_notified";
+  db.prepare(`UPDATE tasks SET ${column} = 1 WHERE id = ?`).run(taskId);
+}
+
+/** The `--own-topic` task whose topic is channel > topic, if any. */
+export function getTaskByOwnTopic(
+  channel: string,
+  topic: string,
+): TaskRow | undefined {
+  return db
+    .prepare(
+      "SELECT * FROM tasks WHERE own_topic = 1 AND task_channel = ? AND task_topic = ?",
+    )
+    .get(channel, topic) as TaskRow | undefined;
+}
+
+/** Record a message as a task comment; returns false if already recorded. */
+export function addTaskComment(p: {
+  taskId: number;
+  msgId: number;
+  authorName: string;
+  authorId?: number;
+  content: string;
+}): boolean {
+  const result = db
+    .prepare(`
+      INSERT OR IGNORE INTO task_comments (task_id, msg_id, author_name, author_id, content)
+      VALUES (@taskId, @msgId, @authorName, @authorId, @content)
+    `)
+    .run({ ...p, authorId: p.authorId ?? null });
+  if (result.changes === 0) return false;
+  notifyTaskChange(p.taskId);
+  return true;
+}
+
+export function getTaskComments(taskId: number): TaskCommentRow[] {
+  return db
+    .prepare("SELECT * FROM task_comments WHERE task_id = ? ORDER BY id")
+    .all(taskId) as TaskCommentRow[];
+}
+
+/** Number of comments and the time of the latest one. */
+export function getTaskCommentStats(
+  taskId: number,
+): { count: number; last_at: string | null } {
+  return db
+    .prepare(
+      "SELECT COUNT(*) AS count, MAX(created_at) AS last_at FROM task_comments WHERE task_id = ?",
+    )
+    .get(taskId) as { count: number; last_at: string | null };
 }
 
 export function addAssignees(
@@ -184,6 +663,7 @@ export function addAssignees(
     }
   });
   tx();
+  notifyTaskChange(taskId);
 }
 
 export function removeAssignees(taskId: number, userIds: number[]): void {
@@ -192,6 +672,7 @@ export function removeAssignees(taskId: number, userIds: number[]): void {
   db.prepare(
     `DELETE FROM task_assignees WHERE task_id = ? AND user_id IN (${placeholders})`,
   ).run(taskId, ...userIds);
+  notifyTaskChange(taskId);
 }
 
 export function getAssignees(taskId: number): AssigneeRow[] {
@@ -200,6 +681,44 @@ export function getAssignees(taskId: number): AssigneeRow[] {
     .all(taskId) as AssigneeRow[];
 }
 
+/**
+ * Tasks for a channel's board: those carded in it or promoted from it.
+ * Closed tasks are included only if closed within the last `closedDays`.
+ */
+export function getTasksForBoard(channel: string, closedDays: number): TaskRow[] {
+  return db
+    .prepare(`
+      SELECT * FROM tasks
+      WHERE (task_channel = @channel OR source_channel = @channel)
+        AND (status NOT IN ('done', 'wont_do')
+          OR completed_at >= datetime('now', '-' || @closedDays || ' days'))
+      ORDER BY id
+    `)
+    .all({ channel, closedDays }) as TaskRow[];
+}
+
+// ── Task change listeners ─────────────────────────────────────────
+
+const taskChangeListeners: Array<(taskId: number) => void> = [];
+
+/**
+ * Call `listener` after every write that changes a task: creation,
+ * state, assignees, comments. Used to refresh task dashboards right away.
+ */
+export function onTaskChange(listener: (taskId: number) => void): void {
+  taskChangeListeners.push(listener);
+}
+
+function notifyTaskChange(taskId: number): void {
+  for (const listener of taskChangeListeners) {
+    try {
+      listener(taskId);
+    } catch (err) {
+      console.error("Task change listener failed:", err);
+    }
+  }
+}
+
 // ── Dashboard CRUD ────────────────────────────────────────────────
 
 export function createDashboard(p: {
@@ -271,6 +790,514 @@ export function deleteDashboard(id: number): void {
   db.prepare("DELETE FROM dashboards WHERE id = ?").run(id);
 }
 
+// ── Digests ───────────────────────────────────────────────────────
+
+export function createDigest(p: {
+  channel: string;
+  targetChannel: string;
+  targetTopic: string;
+  schedule: string;
+  createdBy: string;
+}): number {
+  const result = db.prepare(`
+    INSERT INTO digests (channel, target_channel, target_topic, schedule, created_by)
+    VALUES (@channel, @targetChannel, @targetTopic, @schedule, @createdBy)
+  `).run(p);
+  return result.lastInsertRowid as number;
+}
+
+export function getDigest(id: number): DigestRow | undefined {
+  return db.prepare("SELECT * FROM digests WHERE id = ?").get(id) as
+    | DigestRow
+    | undefined;
+}
+
+export function getAllDigests(): DigestRow[] {
+  return db.prepare("SELECT * FROM digests ORDER BY id").all() as DigestRow[];
+}
+
+export function findDigest(p: {
+  channel: string;
+  targetChannel: string;
+  targetTopic: string;
+  schedule: string;
+}): DigestRow | undefined {
+  return db
+    .prepare(`
+      SELECT * FROM digests
+      WHERE channel = @channel AND target_channel = @targetChannel
+        AND target_topic = @targetTopic AND schedule = @schedule
+    `)
+    .get(p) as DigestRow | undefined;
+}
+
+/** Digests that post to, or summarise, a channel. */
+export function getDigestsForChannel(channel: string): DigestRow[] {
+  return db
+    .prepare("SELECT * FROM digests WHERE target_channel = ? OR channel = ? ORDER BY id")
+    .all(channel, channel) as DigestRow[];
+}
+
+export function markDigestRun(id: number): void {
+  db.prepare("UPDATE digests SET last_run_at = datetime('now') WHERE id = ?").run(id);
+}
+
+export function deleteDigest(id: number): void {
+  db.prepare("DELETE FROM digests WHERE id = ?").run(id);
+}
+
+// ── Reminders ─────────────────────────────────────────────────────
+
+export function createReminder(p: {
+  userId: number;
+  userName: string;
+  message: string;
+  channel: string;
+  topic: string;
+  dueAt: string;
+  schedule: string | null;
+}): number {
+  const result = db.prepare(`
+    INSERT INTO reminders (user_id, user_name, message, channel, topic, due_at, schedule)
+    VALUES (@userId, @userName, @message, @channel, @topic, @dueAt, @schedule)
+  `).run(p);
+  return result.lastInsertRowid as number;
+}
+
+export function getReminder(id: number): ReminderRow | undefined {
+  return db.prepare("SELECT * FROM reminders WHERE id = ?").get(id) as
+    | ReminderRow
+    | undefined;
+}
+
+export function getAllReminders(): ReminderRow[] {
+  return db.prepare("SELECT * FROM reminders ORDER BY due_at").all() as ReminderRow[];
+}
+
+export function getRemindersForUser(userId: number): ReminderRow[] {
+  return db
+    .prepare("SELECT * FROM reminders WHERE user_id = ? ORDER BY due_at")
+    .all(userId) as ReminderRow[];
+}
+
+export function rescheduleReminder(id: number, dueAt: string): void {
+  db.prepare("UPDATE reminders SET due_at = ? WHERE id = ?").run(dueAt, id);
+}
+
+export function deleteReminder(id: number): void {
+  db.prepare("DELETE FROM reminders WHERE id = ?").run(id);
+}
+
+// ── Claude sessions ───────────────────────────────────────────────
+
+/** Get the session for a channel+topic unless it is older than `ttlMs`. */
+export function getClaudeSession(
+  channel: string,
+  topic: string,
+  ttlMs: number,
+): ClaudeSessionRow | undefined {
+  const row = db
+    .prepare("SELECT * FROM claude_sessions WHERE channel = ? AND topic = ?")
+    .get(channel, topic) as ClaudeSessionRow | undefined;
+  if (!row) return undefined;
+
+  const updatedAt = Date.parse(`${row.updated_at.replace(" ", "T")}Z`);
+  if (Date.now() - updatedAt > ttlMs) {
+    deleteClaudeSession(channel, topic);
+    return undefined;
+  }
+  return row;
+}
+
+export function saveClaudeSession(p: {
+  channel: string;
+  topic: string;
+  sessionId: string;
+  profile: string;
+  lastMsgId: number;
+}): void {
+  db.prepare(`
+    INSERT INTO claude_sessions (channel, topic, session_id, profile, last_msg_id)
+    VALUES (@channel, @topic, @sessionId, @profile, @lastMsgId)
+    ON CONFLICT(channel, topic) DO UPDATE SET
+      session_id  = excluded.session_id,
+      profile     = excluded.profile,
+      last_msg_id = excluded.last_msg_id,
+      updated_at  = datetime('now')
+  `).run(p);
+}
+
+export function deleteClaudeSession(channel: string, topic: string): boolean {
+  const result = db
+    .prepare("DELETE FROM claude_sessions WHERE channel = ? AND topic = ?")
+    .run(channel, topic);
+  return result.changes > 0;
+}
+
+// ── Context summaries ─────────────────────────────────────────────
+
+export function getContextSummary(
+  channel: string,
+  topic: string,
+): ContextSummaryRow | undefined {
+  return db
+    .prepare("SELECT * FROM context_summaries WHERE channel = ? AND topic = ?")
+    .get(channel, topic) as ContextSummaryRow | undefined;
+}
+
+export function saveContextSummary(p: {
+  channel: string;
+  topic: string;
+  summary: string;
+  upToMsgId: number;
+}): void {
+  db.prepare(`
+    INSERT INTO context_summaries (channel, topic, summary, up_to_msg_id)
+    VALUES (@channel, @topic, @summary, @upToMsgId)
+    ON CONFLICT(channel, topic) DO UPDATE SET
+      summary      = excluded.summary,
+      up_to_msg_id = excluded.up_to_msg_id,
+      updated_at   = datetime('now')
+  `).run(p);
+}
+
+// ── Claude answers (question → reply mapping) ─────────────────────
+
+/** Remember which bot message answers a question, replacing any earlier answer. */
+export function saveClaudeAnswer(p: {
+  questionMsgId: number;
+  answerMsgId: number;
+  channel: string;
+  topic: string;
+  userName: string;
+  userId?: number;
+  profile: string;
+  question: string;
+  model: string;
+  contextMessages: number;
+  toolCount: number;
+  extraMsgIds: number[];
+}): void {
+  db.prepare(`
+    INSERT INTO claude_answers
+      (question_msg_id, answer_msg_id, channel, topic, user_name, user_id, profile,
+       question, model, context_messages, tool_count, extra_msg_ids)
+    VALUES
+      (@questionMsgId, @answerMsgId, @channel, @topic, @userName, @userId, @profile,
+       @question, @model, @contextMessages, @toolCount, @extraMsgIds)
+    ON CONFLICT(question_msg_id) DO UPDATE SET
+      answer_msg_id    = excluded.answer_msg_id,
+      profile          = excluded.profile,
+      question         = excluded.question,
+      model            = excluded.model,
+      context_messages = excluded.context_messages,
+      tool_count       = excluded.tool_count,
+      extra_msg_ids    = excluded.extra_msg_ids,
+      orphaned         = 0,
+      updated_at    = datetime('now')
+  `).run({ ...p, userId: p.userId ?? null, extraMsgIds: p.extraMsgIds.join(",") });
+}
+
+/** Record the continuation messages of an answer rewritten in place. */
+export function setClaudeAnswerExtraMsgIds(answerMsgId: number, ids: number[]): void {
+  db.prepare(
+    "UPDATE claude_answers SET extra_msg_ids = ?, updated_at = datetime('now') WHERE answer_msg_id = ?",
+  ).run(ids.join(","), answerMsgId);
+}
+
+export function getClaudeAnswerByQuestion(
+  questionMsgId: number,
+): ClaudeAnswerRow | undefined {
+  return db
+    .prepare("SELECT * FROM claude_answers WHERE question_msg_id = ?")
+    .get(questionMsgId) as ClaudeAnswerRow | undefined;
+}
+
+export function getClaudeAnswerByAnswer(
+  answerMsgId: number,
+): ClaudeAnswerRow | undefined {
+  return db
+    .prepare("SELECT * FROM claude_answers WHERE answer_msg_id = ?")
+    .get(answerMsgId) as ClaudeAnswerRow | undefined;
+}
+
+/** The most recent live answer in a channel+topic (or DM conversation). */
+export function getLatestClaudeAnswer(
+  channel: string,
+  topic: string,
+): ClaudeAnswerRow | undefined {
+  return db
+    .prepare(
+      `SELECT * FROM claude_answers
+       WHERE channel = ? AND topic = ? AND orphaned = 0
+       ORDER BY question_msg_id DESC LIMIT 1`,
+    )
+    .get(channel, topic) as ClaudeAnswerRow | undefined;
+}
+
+export function markClaudeAnswerOrphaned(id: number): void {
+  db.prepare(
+    "UPDATE claude_answers SET orphaned = 1, updated_at = datetime('now') WHERE id = ?",
+  ).run(id);
+}
+
+export function deleteClaudeAnswer(id: number): void {
+  db.prepare("DELETE FROM claude_answers WHERE id = ?").run(id);
+}
+
+// ── Answer feedback ───────────────────────────────────────────────
+
+/**
+ * Record a user's rating of an answer, snapshotting the answer's question,
+ * model, context size and tool count. A later rating replaces the earlier
+ * one; a comment given earlier is kept.
+ */
+export function recordAnswerFeedback(p: {
+  answer: ClaudeAnswerRow;
+  userName: string;
+  userId: number;
+  rating: 1 | -1;
+  comment?: string;
+}): void {
+  const { answer } = p;
+  db.prepare(`
+    INSERT INTO answer_feedback
+      (answer_msg_id, user_name, user_id, rating, comment, channel, topic,
+       question, model, context_messages, tool_count)
+    VALUES
+      (@answerMsgId, @userName, @userId, @rating, @comment, @channel, @topic,
+       @question, @model, @contextMessages, @toolCount)
+    ON CONFLICT(answer_msg_id, user_id) DO UPDATE SET
+      rating     = excluded.rating,
+      comment    = COALESCE(excluded.comment, answer_feedback.comment),
+      updated_at = datetime('now')
+  `).run({
+    answerMsgId: answer.answer_msg_id,
+    userName: p.userName,
+    userId: p.userId,
+    rating: p.rating,
+    comment: p.comment ?? null,
+    channel: answer.channel,
+    topic: answer.topic,
+    question: answer.question,
+    model: answer.model,
+    contextMessages: answer.context_messages,
+    toolCount: answer.tool_count,
+  });
+}
+
+/** Drop a user's rating when they remove the matching reaction. */
+export function removeAnswerFeedback(
+  answerMsgId: number,
+  userId: number,
+  rating: 1 | -1,
+): void {
+  db.prepare(
+    "DELETE FROM answer_feedback WHERE answer_msg_id = ? AND user_id = ? AND rating = ? AND comment IS NULL",
+  ).run(answerMsgId, userId, rating);
+}
+
+/**
+ * Thumbs up/down counts since `since` (an SQLite datetime modifier),
+ * grouped by week (e.g. "2026-W41"), channel or model.
+ */
+export function getFeedbackTotals(
+  groupBy: "week" | "channel" | "model",
+  since: string,
+): FeedbackTotals[] {
+  const label =
+    groupBy === "week" ? "strftime('%Y-W%W', created_at)" : groupBy;
+  const order = groupBy === "week" ? "label DESC" : "up + down DESC";
+  return db
+    .prepare(
+      `SELECT ${label} AS label,
+              SUM(rating = 1) AS up,
+              SUM(rating = -1) AS down
+       FROM answer_feedback
+       WHERE created_at >= datetime('now', ?)
+       GROUP BY label
+       ORDER BY ${order}`,
+    )
+    .all(since) as FeedbackTotals[];
+}
+
+export function getRecentFeedbackComments(limit: number): AnswerFeedbackRow[] {
+  return db
+    .prepare(
+      "SELECT * FROM answer_feedback WHERE comment IS NOT NULL ORDER BY updated_at DESC LIMIT ?",
+    )
+    .all(limit) as AnswerFeedbackRow[];
+}
+
+// ── Claude usage ──────────────────────────────────────────────────
+
+export function recordClaudeUsage(p: {
+  userName: string;
+  userId?: number;
+  channel: string;
+  topic: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  durationMs: number;
+  numTurns: number;
+  success: boolean;
+  error?: string;
+}): void {
+  db.prepare(`
+    INSERT INTO claude_usage
+      (user_name, user_id, channel, topic, model, input_tokens, output_tokens,
+       cost_usd, duration_ms, num_turns, success, error)
+    VALUES
+      (@userName, @userId, @channel, @topic, @model, @inputTokens, @outputTokens,
+       @costUsd, @durationMs, @numTurns, @success, @error)
+  `).run({
+    ...p,
+    userId: p.userId ?? null,
+    success: p.success ? 1 : 0,
+    error: p.error ?? null,
+  });
+}
+
+/**
+ * Usage totals since `since` (an SQLite datetime modifier such as
+ * "start of day" or "-7 days"), grouped by user or channel, costliest first.
+ * `userId` restricts the totals to a single user.
+ */
+export function getUsageTotals(
+  groupBy: "user" | "channel",
+  since: string,
+  userId?: number,
+): UsageTotals[] {
+  const label = groupBy === "user" ? "user_name" : "channel";
+  const userFilter = userId !== undefined ? "AND user_id = @userId" : "";
+  return db
+    .prepare(
+      `SELECT ${label} AS label,
+              COUNT(*) AS calls,
+              SUM(1 - success) AS failures,
+              SUM(input_tokens) AS input_tokens,
+              SUM(output_tokens) AS output_tokens,
+              SUM(cost_usd) AS cost_usd
+       FROM claude_usage
+       WHERE created_at >= datetime('now', @since) ${userFilter}
+       GROUP BY ${label}
+       ORDER BY cost_usd DESC`,
+    )
+    .all({ since, userId: userId ?? null }) as UsageTotals[];
+}
+
+// ── Tool call audit log ───────────────────────────────────────────
+
+export function recordToolCall(p: {
+  userName: string;
+  userId?: number;
+  channel: string;
+  topic: string;
+  msgId: number;
+  toolName: string;
+  input: string;
+  output: string;
+  durationMs: number;
+  isError: boolean;
+}): void {
+  db.prepare(`
+    INSERT INTO tool_calls
+      (user_name, user_id, channel, topic, msg_id, tool_name, input, output, duration_ms, is_error)
+    VALUES
+      (@userName, @userId, @channel, @topic, @msgId, @toolName, @input, @output, @durationMs, @isError)
+  `).run({ ...p, userId: p.userId ?? null, isError: p.isError ? 1 : 0 });
+}
+
+/** Most recent tool calls, optionally for one user or one channel+topic. */
+export function getToolCalls(filter: {
+  userId?: number;
+  channel?: string;
+  topic?: string;
+  limit: number;
+}): ToolCallRow[] {
+  const where: string[] = [];
+  if (filter.userId !== undefined) where.push("user_id = @userId");
+  if (filter.channel !== undefined) where.push("channel = @channel");
+  if (filter.topic !== undefined) where.push("topic = @topic");
+  const clause = where.length > 0 ? `WHERE ${where.join(" AND ")}` : "";
+  return db
+    .prepare(`SELECT * FROM tool_calls ${clause} ORDER BY id DESC LIMIT @limit`)
+    .all(filter) as ToolCallRow[];
+}
+
+/** Tool call counts per tool since `since` (an SQLite datetime modifier). */
+export function getToolCallCounts(
+  since: string,
+): Array<{ tool_name: string; calls: number; errors: number }> {
+  return db
+    .prepare(
+      `SELECT tool_name, COUNT(*) AS calls, SUM(is_error) AS errors
+       FROM tool_calls
+       WHERE created_at >= datetime('now', ?)
+       GROUP BY tool_name
+       ORDER BY calls DESC`,
+    )
+    .all(since) as Array<{ tool_name: string; calls: number; errors: number }>;
+}
+
+// ── Write approvals (audit log) ───────────────────────────────────
+
+export function createWriteApproval(p: {
+  tool: string;
+  params: string;
+  requesterName: string;
+  requesterId?: number;
+  channel: string;
+  topic: string;
+  cardMsgId: number;
+}): number {
+  const result = db.prepare(`
+    INSERT INTO write_approvals (tool, params, requester_name, requester_id, channel, topic, card_msg_id)
+    VALUES (@tool, @params, @requesterName, @requesterId, @channel, @topic, @cardMsgId)
+  `).run({ ...p, requesterId: p.requesterId ?? null });
+  return result.lastInsertRowid as number;
+}
+
+export function decideWriteApproval(
+  id: number,
+  status: "approved" | "rejected" | "expired" | "cancelled",
+  decidedBy: string | null,
+): void {
+  db.prepare(
+    "UPDATE write_approvals SET status = ?, decided_by = ?, decided_at = datetime('now') WHERE id = ?",
+  ).run(status, decidedBy, id);
+}
+
+export function finishWriteApproval(
+  id: number,
+  status: "executed" | "failed",
+  result: string,
+): void {
+  db.prepare("UPDATE write_approvals SET status = ?, result = ? WHERE id = ?").run(
+    status,
+    result,
+    id,
+  );
+}
+
+/**
+ * Mark approvals still pending (their waiting request died with the
+ * previous process) as expired, and return them.
+ */
+export function expireStaleWriteApprovals(): WriteApprovalRow[] {
+  return db.transaction(() => {
+    const rows = db
+      .prepare("SELECT * FROM write_approvals WHERE status = 'pending'")
+      .all() as WriteApprovalRow[];
+    db.prepare(
+      "UPDATE write_approvals SET status = 'expired', decided_at = datetime('now') WHERE status = 'pending'",
+    ).run();
+    return rows;
+  })();
+}
+
 export function getTasksForUser(userName: string): Array<{
   task: TaskRow;
   assignees: AssigneeRow[];
@@ -0,0 +1,140 @@
+import type { Config } from "./config.js";
+import type { ZulipClient, ZulipMessage } from "./zulip.js";
+import { fetchHistory } from "./zulip.js";
+import { completeText } from "./claude.js";
+import type { ClaudeUsage } from "./claude.js";
+import { estimateTokens, formatContextMessage } from "./context.js";
+import { recordClaudeUsage } from "./db.js";
+
+/** Upper bound on how many channel messages one digest reads. */
+const MAX_MESSAGES = 3000;
+/** Topics beyond this (least active first) are only listed by name. */
+const MAX_TOPICS = 30;
+/** Prompt size for each map step. */
+const CHUNK_TOKENS = 12_000;
+
+const MAP_PROMPT =
+  "You are reading part of a Zulip channel's recent activity, grouped by topic. " +
+  "For each topic, write brief notes: what was discussed, decisions, open questions and who is doing what. " +
+  "Keep the topic names exactly as given. Reply with the notes only.";
+
+const REDUCE_PROMPT =
+  "You write digests of Zulip channel activity for people who missed it. " +
+  "Given the messages (or notes on them), grouped by topic, write a markdown digest: " +
+  "one bullet per topic, most important first, starting with the topic link written exactly as given " +
+  "(e.g. #**channel>topic**) followed by 1-3 sentences on what happened and any decisions or open questions. " +
+  "Skip small talk. Reply with the bullets only, no heading.";
+
+interface TopicLines {
+  header: string;
+  lines: string[];
+}
+
+/**
+ * Pack topics into prompts of roughly `maxTokens` each without separating
+ * messages from their topic: a topic starts a new chunk unless it fits
+ * whole, and one too big for a chunk is split with its header repeated.
+ */
+function chunkByTopic(topics: TopicLines[], maxTokens: number): string[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let tokens = 0;
+  const close = () => {
+    if (current.length > 0) chunks.push(current.join("\n"));
+    current = [];
+    tokens = 0;
+  };
+  const push = (line: string) => {
+    current.push(line);
+    tokens += estimateTokens(line);
+  };
+
+  for (const { header, lines } of topics) {
+    const size = [header, ...lines].reduce((n, l) => n + estimateTokens(l), 0);
+    if (current.length > 0 && tokens + size > maxTokens) close();
+    push(header);
+    let inChunk = 0;
+    for (const line of lines) {
+      if (inChunk > 0 && tokens + estimateTokens(line) > maxTokens) {
+        close();
+        push(header.replace(/\([^)]*\):$/, "(continued):"));
+        inChunk = 0;
+      }
+      push(line);
+      inChunk++;
+    }
+  }
+  close();
+  return chunks;
+}
+
+/**
+ * Summarise a channel's activity since `since`: fetch its messages across
+ * all topics, group them by topic and condense them with Claude, mapping
+ * over chunks first when there is too much to send at once. Returns null
+ * if the channel was quiet.
+ */
+export async function buildDigest(p: {
+  client: ZulipClient;
+  config: Config;
+  channel: string;
+  since: Date;
+}): Promise<string | null> {
+  const messages = await fetchHistory(
+    p.client,
+    { type: "channel", channel: p.channel },
+    { limit: MAX_MESSAGES, since: p.since },
+  );
+  if (messages.length === 0) return null;
+
+  const byTopic = new Map<string, ZulipMessage[]>();
+  for (const m of messages) {
+    const list = byTopic.get(m.subject) ?? [];
+    list.push(m);
+    byTopic.set(m.subject, list);
+  }
+  const topics = [...byTopic.entries()].sort((a, b) => b[1].length - a[1].length);
+  const included = topics.slice(0, MAX_TOPICS);
+  const skipped = topics.slice(MAX_TOPICS);
+
+  const topicLines = included.map(([topic, list]) => ({
+    header: `Topic #**${p.channel}>${topic}** (${list.length} messages):`,
+    lines: list.map(formatContextMessage),
+  }));
+
+  const onUsage = (u: ClaudeUsage) =>
+    recordClaudeUsage({
+      userName: "(digest)",
+      channel: p.channel,
+      topic: "",
+      model: u.model,
+      inputTokens: u.inputTokens,
+      outputTokens: u.outputTokens,
+      costUsd: u.costUsd,
+      durationMs: u.durationMs,
+      numTurns: u.numTurns,
+      success: true,
+    });
+  const model = p.config.summaryModel;
+
+  const chunks = chunkByTopic(topicLines, CHUNK_TOKENS);
+  let input: string;
+  if (chunks.length === 1) {
+    input = chunks[0];
+  } else {
+    const notes: string[] = [];
+    for (const chunk of chunks) {
+      notes.push((await completeText(chunk, { systemPrompt: MAP_PROMPT, model, onUsage })).trim());
+    }
+    input = notes.join("\n\n");
+  }
+  const digest = (
+    await completeText(input, { systemPrompt: REDUCE_PROMPT, model, onUsage })
+  ).trim();
+
+  const footer =
+    skipped.length > 0
+      ? `\n\nAlso active: ${skipped.map(([topic]) => `#**${p.channel}>${topic}**`).join(", ")}`
+      : "";
+  return `${digest}${footer}`;
+}
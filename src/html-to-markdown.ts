@@ -0,0 +1,319 @@
+import { DomUtils, parseDocument } from "htmlparser2";
+
+type Node = ReturnType<typeof parseDocument>["children"][number];
+type Element = Extract<Node, { attribs: Record<string, string> }>;
+
+export interface HtmlToMarkdownOptions {
+  /**
+   * How to render @-mentions: "strip" (the default) drops them, which is
+   * what command parsing wants; "keep" renders them as Zulip mention
+   * syntax (`@**Name**`, `@_**Name**`, `@*group*`).
+   */
+  mentions?: "keep" | "strip";
+  /**
+   * "strip" drops block quotes (e.g. the quoted message of a
+   * quote-reply); "keep" (the default) renders them as `> ` lines.
+   */
+  quotes?: "keep" | "strip";
+}
+
+/**
+ * Convert Zulip's rendered message HTML back to Zulip markdown.
+ *
+ * Parses the HTML and walks the tree, so structure survives: nested
+ * lists, code blocks with their language, tables, spoilers, quotes
+ * (including quote-replies), KaTeX math, channel/topic links, emoji,
+ * global times and mentions. Link previews and inline image thumbnails
+ * are dropped, since the link they preview is already in the text.
+ */
+export function htmlToMarkdown(
+  html: string,
+  opts: HtmlToMarkdownOptions = {},
+): string {
+  const doc = parseDocument(html);
+  return renderBlocks(doc.children, opts).replace(/\n{3,}/g, "\n\n").trim();
+}
+
+/**
+ * A message's content as Zulip markdown. Messages fetched with
+ * `apply_markdown: false` already carry their markdown source and are
+ * returned as is; rendered HTML is converted.
+ */
+export function messageMarkdown(
+  message: { content: string; content_type?: string },
+  opts: HtmlToMarkdownOptions = {},
+): string {
+  if (message.content_type === "text/x-markdown") return message.content.trim();
+  return htmlToMarkdown(message.content, opts);
+}
+
+const BLOCK_TAGS = new Set([
+  "p", "div", "blockquote", "pre", "ul", "ol", "table", "hr",
+  "h1", "h2", "h3", "h4", "h5", "h6",
+]);
+
+/** Rendered separately (or not at all) rather than as message content. */
+const SKIPPED_CLASSES = [
+  "message_inline_image",
+  "message_inline_ref",
+  "message_embed",
+  "youtube-video",
+  "twitter-tweet",
+  "inline-preview-twitter",
+];
+
+function hasClass(el: Element, name: string): boolean {
+  return (el.attribs.class ?? "").split(/\s+/).includes(name);
+}
+
+function isBlock(node: Node): node is Element {
+  return DomUtils.isTag(node) && BLOCK_TAGS.has(node.name);
+}
+
+// ── Block-level rendering ────────────────────────────────────────
+
+/**
+ * Render a node list, separating blocks (and runs of inline content) by
+ * blank lines, or by `separator` (tight list items use a single newline).
+ */
+function renderBlocks(
+  nodes: Node[],
+  opts: HtmlToMarkdownOptions,
+  separator = "\n\n",
+): string {
+  const parts: string[] = [];
+  let inline = "";
+  const flush = () => {
+    const text = cleanInline(inline);
+    if (text) parts.push(text);
+    inline = "";
+  };
+
+  for (const node of nodes) {
+    if (isBlock(node)) {
+      flush();
+      const block = renderBlock(node, opts);
+      if (block.trim()) parts.push(block);
+    } else {
+      inline += renderInline(node, opts);
+    }
+  }
+  flush();
+  return parts.join(separator);
+}
+
+function renderBlock(el: Element, opts: HtmlToMarkdownOptions): string {
+  if (SKIPPED_CLASSES.some((c) => hasClass(el, c))) return "";
+
+  switch (el.name) {
+    case "p": {
+      // Display math is rendered as a paragraph holding a katex-display span
+      const children = el.children.filter(
+        (c) => !(DomUtils.isText(c) && c.data.trim() === ""),
+      );
+      const only = children.length === 1 ? children[0] : undefined;
+      if (only && DomUtils.isTag(only) && hasClass(only, "katex-display")) {
+        return fence("math", texSource(only));
+      }
+      return cleanInline(renderInlineChildren(el, opts));
+    }
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6":
+      return `${"#".repeat(Number(el.name[1]))} ${cleanInline(renderInlineChildren(el, opts))}`;
+    case "hr":
+      return "---";
+    case "blockquote":
+      if (opts.quotes === "strip") return "";
+      return renderBlocks(el.children, opts)
+        .split("\n")
+        .map((line) => (line ? `> ${line}` : ">"))
+        .join("\n");
+    case "pre":
+      return fence("", codeText(el));
+    case "ul":
+    case "ol":
+      return renderList(el, opts);
+    case "table":
+      return renderTable(el, opts);
+    default:
+      break;
+  }
+
+  // <div>s
+  if (hasClass(el, "codehilite")) {
+    const pre = DomUtils.findOne((e) => e.name === "pre", el.children);
+    const lang = (el.attribs["data-code-language"] ?? "").toLowerCase();
+    return fence(lang, pre ? codeText(pre) : DomUtils.textContent(el));
+  }
+  if (hasClass(el, "spoiler-block")) {
+    const header = DomUtils.findOne((e) => hasClass(e, "spoiler-header"), el.children);
+    const content = DomUtils.findOne((e) => hasClass(e, "spoiler-content"), el.children);
+    const title = header ? renderBlocks(header.children, opts).replace(/\s*\n\s*/g, " ") : "";
+    const body = content ? renderBlocks(content.children, opts) : "";
+    return fence(title ? `spoiler ${title}` : "spoiler", body);
+  }
+  return renderBlocks(el.children, opts);
+}
+
+function renderList(list: Element, opts: HtmlToMarkdownOptions): string {
+  const ordered = list.name === "ol";
+  let n = Number(list.attribs.start ?? 1) || 1;
+  const items: string[] = [];
+
+  for (const li of list.children) {
+    if (!DomUtils.isTag(li) || li.name !== "li") continue;
+    const marker = ordered ? `${n++}. ` : "- ";
+    const indent = " ".repeat(marker.length);
+    // Loose lists wrap item text in <p>; tight ones don't
+    const loose = li.children.some((c) => DomUtils.isTag(c) && c.name === "p");
+    const lines = renderBlocks(li.children, opts, loose ? "\n\n" : "\n").split("\n");
+    items.push(
+      lines
+        .map((line, i) => (i === 0 ? marker + line : line ? indent + line : line))
+        .join("\n"),
+    );
+  }
+  return items.join("\n");
+}
+
+function renderTable(table: Element, opts: HtmlToMarkdownOptions): string {
+  const rows = DomUtils.findAll((e) => e.name === "tr", table.children);
+  if (rows.length === 0) return "";
+
+  const cellsOf = (tr: Element) =>
+    tr.children.filter(
+      (c): c is Element => DomUtils.isTag(c) && (c.name === "th" || c.name === "td"),
+    );
+  const renderRow = (cells: string[]) => `| ${cells.join(" | ")} |`;
+  const cellText = (cell: Element) =>
+    cleanInline(renderInlineChildren(cell, opts))
+      .replace(/\n/g, " ")
+      .replace(/\|/g, "\\|");
+
+  const header = cellsOf(rows[0]);
+  const separator = header.map((cell) => {
+    const align = /text-align:\s*(left|right|center)/.exec(cell.attribs.style ?? "")?.[1];
+    if (align === "center") return ":---:";
+    if (align === "right") return "---:";
+    if (align === "left") return ":---";
+    return "---";
+  });
+
+  return [
+    renderRow(header.map(cellText)),
+    renderRow(separator),
+    ...rows.slice(1).map((tr) => renderRow(cellsOf(tr).map(cellText))),
+  ].join("\n");
+}
+
+// ── Inline rendering ─────────────────────────────────────────────
+
+function renderInlineChildren(el: Element, opts: HtmlToMarkdownOptions): string {
+  return el.children.map((c) => renderInline(c, opts)).join("");
+}
+
+function renderInline(node: Node, opts: HtmlToMarkdownOptions): string {
+  if (DomUtils.isText(node)) return node.data.replace(/\s*\n\s*/g, " ");
+  if (!DomUtils.isTag(node)) return "";
+  const el = node;
+  const inner = () => renderInlineChildren(el, opts);
+
+  if (hasClass(el, "user-mention") || hasClass(el, "topic-mention")) {
+    if (opts.mentions !== "keep") return "";
+    const name = DomUtils.textContent(el).replace(/^@/, "");
+    return hasClass(el, "silent") ? `@_**${name}**` : `@**${name}**`;
+  }
+  if (hasClass(el, "user-group-mention")) {
+    if (opts.mentions !== "keep") return "";
+    const name = DomUtils.textContent(el).replace(/^@/, "");
+    return hasClass(el, "silent") ? `@_*${name}*` : `@*${name}*`;
+  }
+  if (hasClass(el, "katex") || hasClass(el, "katex-display")) {
+    return `$$${texSource(el)}$$`;
+  }
+  if (hasClass(el, "emoji")) {
+    // Unicode emoji spans hold ":name:"; custom emoji are <img alt=":name:">
+    return el.name === "img" ? (el.attribs.alt ?? "") : DomUtils.textContent(el);
+  }
+  if (SKIPPED_CLASSES.some((c) => hasClass(el, c))) return "";
+
+  switch (el.name) {
+    case "br":
+      return "\n";
+    case "strong":
+    case "b":
+      return `**${inner()}**`;
+    case "em":
+    case "i":
+      return `*${inner()}*`;
+    case "del":
+    case "s":
+      return `~~${inner()}~~`;
+    case "code":
+      return inlineCode(DomUtils.textContent(el));
+    case "time":
+      return el.attribs.datetime ? `<time:${el.attribs.datetime}>` : inner();
+    case "img":
+      return "";
+    case "a":
+      return renderLink(el, inner());
+    default:
+      return inner();
+  }
+}
+
+function renderLink(a: Element, text: string): string {
+  const href = a.attribs.href ?? "";
+  if (hasClass(a, "stream")) {
+    return `#**${text.replace(/^#/, "")}**`;
+  }
+  if (hasClass(a, "stream-topic")) {
+    // Rendered as "#channel > topic"
+    return `#**${text.replace(/^#/, "").replace(/ > /, ">")}**`;
+  }
+  if (!href || text === href) return href || text;
+  return `[${text}](${href})`;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────
+
+/** Tidy inline content: trim each line (text nodes carry HTML source newlines). */
+function cleanInline(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .join("\n")
+    .trim();
+}
+
+/** Code from a <pre>, minus the trailing newline Zulip adds. */
+function codeText(pre: Element): string {
+  return DomUtils.textContent(pre).replace(/\n$/, "");
+}
+
+/** The TeX source KaTeX keeps in an <annotation> element. */
+function texSource(el: Element): string {
+  const annotation = DomUtils.findOne(
+    (e) => e.name === "annotation" && e.attribs.encoding === "application/x-tex",
+    el.children,
+  );
+  return annotation ? DomUtils.textContent(annotation).trim() : DomUtils.textContent(el);
+}
+
+/** A fenced block whose fence is longer than any backtick run inside it. */
+function fence(info: string, body: string): string {
+  const longest = Math.max(2, ...(body.match(/`{3,}/g) ?? []).map((m) => m.length));
+  const ticks = "`".repeat(longest + 1);
+  return `${ticks}${info}\n${body}\n${ticks}`;
+}
+
+function inlineCode(code: string): string {
+  const longest = Math.max(0, ...(code.match(/`+/g) ?? []).map((m) => m.length));
+  const ticks = "`".repeat(longest + 1);
+  const pad = code.startsWith("`") || code.endsWith("`") ? " " : "";
+  return `${ticks}${pad}${code}${pad}${ticks}`;
+}
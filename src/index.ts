@@ -1,14 +1,23 @@
 import { loadConfig } from "./config.js";
 import { initDatabase } from "./db.js";
+import { loadPolicy } from "./policy.js";
+import { listProfiles, loadProfiles } from "./profiles.js";
 import { initZulip } from "./zulip.js";
 import type {
   ZulipClient,
+  ZulipDeleteMessageEvent,
   ZulipMessageEvent,
   ZulipReactionEvent,
+  ZulipUpdateMessageEvent,
 } from "./zulip.js";
-import { handleMessage } from "./bot.js";
+import {
+  handleMessage,
+  handleMessageDelete,
+  handleMessageEdit,
+  handleStopReaction,
+} from "./bot.js";
 import type { Config } from "./config.js";
-import { createZulipMcpServer } from "./zulip-tools.js";
+import { expireStaleApprovals, handleApprovalReaction } from "./approvals.js";
 import { loadServices } from "./services/loader.js";
 import type { Service, ServiceContext } from "./services/types.js";
 
@@ -16,7 +25,7 @@ const BACKOFF_MS = 5000;
 
 async function registerQueue(client: ZulipClient) {
   const result = await client.queues.register({
-    event_types: ["message", "reaction"],
+    event_types: ["message", "reaction", "update_message", "delete_message"],
   });
   console.log(`Registered event queue: ${result.queue_id}`);
   return { queueId: result.queue_id, lastEventId: result.last_event_id };
@@ -28,9 +37,6 @@ async function eventLoop(
 ): Promise<void> {
   let { queueId, lastEventId } = await registerQueue(ctx.client);
 
-  const zulipMcp = createZulipMcpServer(ctx.client);
-  console.log("  Zulip MCP tools: enabled");
-
   while (true) {
     try {
       const response = await ctx.client.events.retrieve({
@@ -46,14 +52,31 @@ async function eventLoop(
             event as ZulipMessageEvent,
             services,
             ctx,
-            zulipMcp,
           ).catch((err) => {
             console.error("Unhandled error in handleMessage:", err);
           });
         }
 
+        if (event.type === "update_message") {
+          handleMessageEdit(event as ZulipUpdateMessageEvent, ctx).catch((err) => {
+            console.error("Unhandled error in handleMessageEdit:", err);
+          });
+        }
+
+        if (event.type === "delete_message") {
+          handleMessageDelete(event as ZulipDeleteMessageEvent, ctx).catch((err) => {
+            console.error("Unhandled error in handleMessageDelete:", err);
+          });
+        }
+
         if (event.type === "reaction") {
           const reactionEvent = event as ZulipReactionEvent;
+          handleStopReaction(reactionEvent, ctx).catch((err) => {
+            console.error("Unhandled error in handleStopReaction:", err);
+          });
+          handleApprovalReaction(reactionEvent, ctx).catch((err) => {
+            console.error("Unhandled error in handleApprovalReaction:", err);
+          });
           for (const svc of services) {
             if (!svc.onReaction) continue;
             svc.onReaction(reactionEvent, ctx).catch((err) => {
@@ -94,7 +117,14 @@ async function main(): Promise<void> {
   initDatabase(config.dbPath);
   console.log(`  DB:    ${config.dbPath}`);
 
+  loadPolicy(config.policyFile);
+  console.log(`  Policy: ${config.policyFile}`);
+
+  loadProfiles(config.profilesFile);
+  console.log(`  Profiles: ${listProfiles().join(", ")}`);
+
   const ctx: ServiceContext = { client, config, botEmail, botUserId };
+  await expireStaleApprovals(ctx);
 
   console.log("Loading services...");
   const services = await loadServices(ctx);
@@ -0,0 +1,48 @@
+/**
+ * Registry of Claude answers currently being generated, keyed by the id of
+ * their ":loading:" streaming message, so they can be cancelled from a
+ * reaction on that message or an `@bot cancel` in the same conversation.
+ */
+
+export interface InflightRequest {
+  /** Id of the streaming answer message. */
+  messageId: number;
+  /** Conversation key (see `conversationKey`). */
+  channel: string;
+  topic: string;
+  requesterId: number;
+  controller: AbortController;
+  /** Name of whoever cancelled the request, once cancelled. */
+  cancelledBy?: string;
+}
+
+const inflight = new Map<number, InflightRequest>();
+
+export function registerInflight(req: InflightRequest): void {
+  inflight.set(req.messageId, req);
+}
+
+export function unregisterInflight(messageId: number): void {
+  inflight.delete(messageId);
+}
+
+export function getInflight(messageId: number): InflightRequest | undefined {
+  return inflight.get(messageId);
+}
+
+export function getInflightInConversation(
+  channel: string,
+  topic: string,
+): InflightRequest[] {
+  return [...inflight.values()].filter(
+    (r) => r.channel === channel && r.topic === topic,
+  );
+}
+
+/** Abort a request. Returns false if it was already cancelled. */
+export function cancelInflight(req: InflightRequest, by: string): boolean {
+  if (req.controller.signal.aborted) return false;
+  req.cancelledBy = by;
+  req.controller.abort();
+  return true;
+}
@@ -0,0 +1,209 @@
+/**
+ * Split Zulip markdown into messages of at most `maxLen` characters
+ * without breaking its structure:
+ * - fenced code blocks are closed at the end of a chunk and reopened
+ *   (with the same fence and language tag) at the start of the next;
+ * - spoiler and quote fences are reopened the same way, and their
+ *   markdown content is itself split structurally;
+ * - table rows and quote lines are never cut (split tables repeat
+ *   their header row);
+ * - every chunk after the first starts with a "(continued 2/3)" marker.
+ */
+export function splitMarkdown(content: string, maxLen: number): string[] {
+  if (content.length <= maxLen) return [content];
+
+  const chunks = packBlocks(parseBlocks(content), maxLen - MARKER_RESERVE);
+  if (chunks.length === 1) return chunks;
+  return chunks.map((chunk, i) =>
+    i === 0 ? chunk : `*(continued ${i + 1}/${chunks.length})*\n\n${chunk}`,
+  );
+}
+
+/** Room kept free in each chunk for the "(continued N/M)" marker. */
+const MARKER_RESERVE = 32;
+
+/**
+ * Below this much room for content once a fence or table header is
+ * repeated, a block is split as plain lines instead.
+ */
+const MIN_STRUCTURED_ROOM = 16;
+
+/** Fences whose content is markdown rather than code. */
+const MARKDOWN_FENCES = new Set(["spoiler", "quote"]);
+
+const FENCE_OPEN_RE = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+const TABLE_SEPARATOR_RE = /^\s*\|?\s*:?-{2,}/;
+
+type Block =
+  | { kind: "fence"; open: string; close: string; info: string; body: string[] }
+  | { kind: "table" | "quote" | "text"; lines: string[] };
+
+function lineKind(line: string): "table" | "quote" | "text" {
+  if (line.trimStart().startsWith("|")) return "table";
+  if (line.startsWith(">")) return "quote";
+  return "text";
+}
+
+function isFenceClose(line: string, marker: string): boolean {
+  const t = line.trim();
+  return t.length >= marker.length && t === marker[0].repeat(t.length);
+}
+
+/**
+ * Break markdown into blocks: fenced blocks (up to their closing fence),
+ * and runs of table, quote or text lines separated by blank lines.
+ * Fences opened inside a spoiler or quote fence are nested in it, so
+ * their closing line doesn't end the outer fence.
+ */
+function parseBlocks(content: string): Block[] {
+  const lines = content.split("\n");
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.trim() === "") {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE_OPEN_RE.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      const info = fence[2].trim().split(/\s+/)[0].toLowerCase();
+      const body: string[] = [];
+      let j = i + 1;
+      let close: string | undefined;
+      // Marker of a fence open inside this (markdown) fence
+      let nested: string | null = null;
+      for (; j < lines.length; j++) {
+        if (nested) {
+          if (isFenceClose(lines[j], nested)) nested = null;
+        } else if (isFenceClose(lines[j], marker)) {
+          close = lines[j];
+          break;
+        } else if (MARKDOWN_FENCES.has(info)) {
+          nested = FENCE_OPEN_RE.exec(lines[j])?.[1] ?? null;
+        }
+        body.push(lines[j]);
+      }
+      blocks.push({
+        kind: "fence",
+        open: line,
+        // An unclosed fence runs to the end; close it so chunks render
+        close: close ?? marker,
+        info,
+        body,
+      });
+      i = j + 1;
+      continue;
+    }
+
+    const kind = lineKind(line);
+    const group: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() !== "" &&
+      !FENCE_OPEN_RE.test(lines[i]) &&
+      lineKind(lines[i]) === kind
+    ) {
+      group.push(lines[i]);
+      i++;
+    }
+    blocks.push({ kind, lines: group });
+  }
+
+  return blocks;
+}
+
+function renderBlock(block: Block): string {
+  if (block.kind === "fence") {
+    return [block.open, ...block.body, block.close].join("\n");
+  }
+  return block.lines.join("\n");
+}
+
+/** Greedily pack blocks into chunks, splitting blocks that don't fit alone. */
+function packBlocks(blocks: Block[], limit: number): string[] {
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const piece of blocks.flatMap((b) => splitBlock(b, limit))) {
+    if (!current) {
+      current = piece;
+    } else if (current.length + 2 + piece.length <= limit) {
+      current += `\n\n${piece}`;
+    } else {
+      chunks.push(current);
+      current = piece;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/** Split one block into pieces of at most `limit` characters. */
+function splitBlock(block: Block, limit: number): string[] {
+  const rendered = renderBlock(block);
+  if (rendered.length <= limit) return [rendered];
+
+  switch (block.kind) {
+    case "fence": {
+      const bodyLimit = limit - block.open.length - block.close.length - 2;
+      if (bodyLimit < MIN_STRUCTURED_ROOM) return packLines(rendered.split("\n"), limit);
+      const bodies = MARKDOWN_FENCES.has(block.info)
+        ? packBlocks(parseBlocks(block.body.join("\n")), bodyLimit)
+        : packLines(block.body, bodyLimit);
+      return bodies.map((body) => `${block.open}\n${body}\n${block.close}`);
+    }
+    case "table": {
+      const hasHeader =
+        block.lines.length > 2 && TABLE_SEPARATOR_RE.test(block.lines[1]);
+      if (!hasHeader) return packLines(block.lines, limit);
+      const header = block.lines.slice(0, 2).join("\n");
+      if (limit - header.length - 1 < MIN_STRUCTURED_ROOM) return packLines(block.lines, limit);
+      return packLines(block.lines.slice(2), limit - header.length - 1).map(
+        (rows) => `${header}\n${rows}`,
+      );
+    }
+    default:
+      return packLines(block.lines, limit);
+  }
+}
+
+/**
+ * Greedily pack whole lines into pieces. A single line longer than the
+ * limit is cut at the last space before it, or hard-cut if there is none.
+ */
+function packLines(lines: string[], limit: number): string[] {
+  const pieces: string[] = [];
+  let current: string | null = null;
+
+  for (const line of lines.flatMap((l) => wrapLine(l, limit))) {
+    if (current === null) {
+      current = line;
+    } else if (current.length + 1 + line.length <= limit) {
+      current += `\n${line}`;
+    } else {
+      pieces.push(current);
+      current = line;
+    }
+  }
+  if (current !== null) pieces.push(current);
+  return pieces;
+}
+
+function wrapLine(line: string, limit: number): string[] {
+  // Always make progress, however little room the caller has left
+  limit = Math.max(1, limit);
+  const parts: string[] = [];
+  let rest = line;
+  while (rest.length > limit) {
+    let cut = rest.lastIndexOf(" ", limit);
+    if (cut <= 0) cut = limit;
+    parts.push(rest.slice(0, cut));
+    rest = rest.slice(cut).replace(/^ /, "");
+  }
+  parts.push(rest);
+  return parts;
+}
@@ -0,0 +1,170 @@
+import { existsSync, readFileSync } from "node:fs";
+import type { ServiceContext } from "./services/types.js";
+import type { ZulipMessage } from "./zulip.js";
+import { replyRecipient, sendMessage } from "./zulip.js";
+
+// ── Capabilities ─────────────────────────────────────────────────
+
+export const CAPABILITIES = {
+  ask: "ask Claude questions",
+  use_bash: "let Claude run Bash commands",
+  zulip_write: "let Claude use Zulip write tools (create channels, subscribe users, ...)",
+  manage_dashboards: "start, stop and refresh dashboards; add and remove digests",
+  manage_tasks: "create and assign tasks",
+  approve_writes: "approve Zulip write actions requested by other users",
+  admin: "inspect other users' permissions and the tool audit log",
+} as const;
+
+export type Capability = keyof typeof CAPABILITIES;
+
+const ALL_CAPABILITIES = Object.keys(CAPABILITIES) as Capability[];
+
+/**
+ * Policy file shape. Every list holds capability names, or "*" for all.
+ * A user's effective capabilities are the union of `defaults`, their
+ * Zulip role, their user groups and their own entry.
+ */
+interface PolicyFile {
+  defaults?: string[];
+  /** Keyed by Zulip role: owner, admin, moderator, member, guest. */
+  roles?: Record<string, string[]>;
+  /** Keyed by user group name. */
+  groups?: Record<string, string[]>;
+  /** Keyed by email address or numeric user id. */
+  users?: Record<string, string[]>;
+}
+
+/** Used when no policy file exists: everything the bot did before, admins get all. */
+const DEFAULT_POLICY: PolicyFile = {
+  defaults: ALL_CAPABILITIES.filter((c) => c !== "admin" && c !== "approve_writes"),
+  roles: { owner: ["*"], admin: ["*"] },
+};
+
+let policy: PolicyFile = DEFAULT_POLICY;
+
+/** Load the policy file, falling back to the permissive default. */
+export function loadPolicy(path: string): void {
+  if (!existsSync(path)) {
+    policy = DEFAULT_POLICY;
+    return;
+  }
+  policy = JSON.parse(readFileSync(path, "utf8")) as PolicyFile;
+  userCache.clear();
+}
+
+// ── Zulip user lookups (cached) ──────────────────────────────────
+
+const ROLE_NAMES: Record<number, string> = {
+  100: "owner",
+  200: "admin",
+  300: "moderator",
+  400: "member",
+  600: "guest",
+};
+
+interface UserInfo {
+  userId: number;
+  fullName: string;
+  email: string;
+  role: string;
+  groups: string[];
+}
+
+const CACHE_TTL_MS = 5 * 60_000;
+const userCache = new Map<number, { info: UserInfo; fetchedAt: number }>();
+
+async function getUserInfo(
+  ctx: ServiceContext,
+  userId: number,
+): Promise<UserInfo> {
+  const cached = userCache.get(userId);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+    return cached.info;
+  }
+
+  const [userRes, groupsRes] = await Promise.all([
+    ctx.client.callEndpoint(`/users/${userId}`, "GET"),
+    ctx.client.callEndpoint("/user_groups", "GET"),
+  ]);
+  const user = userRes.user as
+    | { full_name: string; email: string; role?: number }
+    | undefined;
+  const groups =
+    (groupsRes.user_groups as Array<{ name: string; members: number[] }>) ?? [];
+
+  const info: UserInfo = {
+    userId,
+    fullName: user?.full_name ?? "Unknown",
+    email: user?.email ?? "",
+    role: ROLE_NAMES[user?.role ?? 400] ?? "member",
+    groups: groups.filter((g) => g.members.includes(userId)).map((g) => g.name),
+  };
+  userCache.set(userId, { info, fetchedAt: Date.now() });
+  return info;
+}
+
+// ── Evaluation ───────────────────────────────────────────────────
+
+export interface EffectivePermissions {
+  user: UserInfo;
+  capabilities: Set<Capability>;
+  /** Which policy entries granted each capability, e.g. "role:admin". */
+  sources: Map<Capability, string[]>;
+}
+
+export async function getEffectivePermissions(
+  ctx: ServiceContext,
+  userId: number,
+): Promise<EffectivePermissions> {
+  const user = await getUserInfo(ctx, userId);
+  const capabilities = new Set<Capability>();
+  const sources = new Map<Capability, string[]>();
+
+  const grant = (list: string[] | undefined, source: string) => {
+    for (const entry of list ?? []) {
+      const caps = entry === "*" ? ALL_CAPABILITIES : [entry as Capability];
+      for (const cap of caps) {
+        if (!(cap in CAPABILITIES)) continue;
+        capabilities.add(cap);
+        sources.set(cap, [...(sources.get(cap) ?? []), source]);
+      }
+    }
+  };
+
+  grant(policy.defaults, "defaults");
+  grant(policy.roles?.[user.role], `role:${user.role}`);
+  for (const group of user.groups) {
+    grant(policy.groups?.[group], `group:${group}`);
+  }
+  grant(policy.users?.[user.email], `user:${user.email}`);
+  grant(policy.users?.[String(userId)], `user:${userId}`);
+
+  return { user, capabilities, sources };
+}
+
+export async function hasCapability(
+  ctx: ServiceContext,
+  userId: number,
+  cap: Capability,
+): Promise<boolean> {
+  const perms = await getEffectivePermissions(ctx, userId);
+  return perms.capabilities.has(cap);
+}
+
+/**
+ * Check that the sender of `msg` holds `cap`. If not, reply with a denial
+ * message and return false.
+ */
+export async function requireCapability(
+  ctx: ServiceContext,
+  msg: ZulipMessage,
+  cap: Capability,
+): Promise<boolean> {
+  if (await hasCapability(ctx, msg.sender_id, cap)) return true;
+  await sendMessage(
+    ctx.client,
+    replyRecipient(msg, ctx.botUserId),
+    `Sorry ${msg.sender_full_name}, you don't have permission to ${CAPABILITIES[cap]} (\`${cap}\`). Ask an admin if you need it.`,
+  );
+  return false;
+}
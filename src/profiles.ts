@@ -0,0 +1,142 @@
+import { existsSync, readFileSync } from "node:fs";
+import type { Config } from "./config.js";
+import type { ZulipClient } from "./zulip.js";
+
+/** Everything that shapes a Claude call for a given channel. */
+export interface ClaudeProfile {
+  name: string;
+  cwd: string;
+  model?: string;
+  maxTurns: number;
+  allowedTools: string[];
+  /** Appended to the base system prompt. */
+  systemPrompt?: string;
+}
+
+export const DEFAULT_ALLOWED_TOOLS = [
+  "Read",
+  "Grep",
+  "Glob",
+  "Bash",
+  "WebSearch",
+  "mcp__zulip__*",
+];
+
+/** Name of the profile built from the env config. */
+export const DEFAULT_PROFILE = "default";
+
+interface ProfileEntry {
+  cwd?: string;
+  model?: string;
+  maxTurns?: number;
+  allowedTools?: string[];
+  systemPrompt?: string;
+}
+
+/**
+ * Profiles file shape. `channels` and `folders` map a channel name or a
+ * channel folder name to a profile name; channel mappings win.
+ */
+interface ProfilesFile {
+  profiles?: Record<string, ProfileEntry>;
+  channels?: Record<string, string>;
+  folders?: Record<string, string>;
+}
+
+let profilesFile: ProfilesFile = {};
+
+export function loadProfiles(path: string): void {
+  profilesFile = existsSync(path)
+    ? (JSON.parse(readFileSync(path, "utf8")) as ProfilesFile)
+    : {};
+  folderCache = null;
+}
+
+export function listProfiles(): string[] {
+  return [DEFAULT_PROFILE, ...Object.keys(profilesFile.profiles ?? {})];
+}
+
+/** Build a profile by name, with unset fields taken from the env config. */
+export function getProfile(name: string, config: Config): ClaudeProfile | undefined {
+  const entry =
+    name === DEFAULT_PROFILE ? {} : profilesFile.profiles?.[name];
+  if (!entry) return undefined;
+  return {
+    name,
+    cwd: entry.cwd ?? config.claudeCwd,
+    model: entry.model ?? config.claudeModel,
+    maxTurns: entry.maxTurns ?? config.claudeMaxTurns,
+    allowedTools: entry.allowedTools ?? DEFAULT_ALLOWED_TOOLS,
+    systemPrompt: entry.systemPrompt,
+  };
+}
+
+// ── Channel → folder lookup (cached) ─────────────────────────────
+
+const FOLDER_CACHE_TTL_MS = 5 * 60_000;
+let folderCache: { byChannel: Map<string, string>; fetchedAt: number } | null =
+  null;
+
+/** Map of lower-cased channel name → channel folder name. */
+async function getChannelFolders(
+  client: ZulipClient,
+): Promise<Map<string, string>> {
+  if (folderCache && Date.now() - folderCache.fetchedAt < FOLDER_CACHE_TTL_MS) {
+    return folderCache.byChannel;
+  }
+
+  const [streamsRes, foldersRes] = await Promise.all([
+    client.callEndpoint("/streams", "GET"),
+    client.callEndpoint("/channel_folders", "GET"),
+  ]);
+  const streams =
+    (streamsRes.streams as Array<{ name: string; folder_id?: number | null }>) ??
+    [];
+  const folders =
+    (foldersRes.channel_folders as Array<{ id: number; name: string }>) ?? [];
+  const folderNames = new Map(folders.map((f) => [f.id, f.name]));
+
+  const byChannel = new Map<string, string>();
+  for (const s of streams) {
+    const folder = s.folder_id ? folderNames.get(s.folder_id) : undefined;
+    if (folder) byChannel.set(s.name.toLowerCase(), folder);
+  }
+  folderCache = { byChannel, fetchedAt: Date.now() };
+  return byChannel;
+}
+
+/**
+ * Pick the profile for a channel: its own mapping, else its folder's,
+ * else the default. `channel` is null for DMs.
+ */
+export async function resolveProfile(
+  client: ZulipClient,
+  config: Config,
+  channel: string | null,
+): Promise<ClaudeProfile> {
+  let name: string | undefined;
+
+  if (channel) {
+    const lower = channel.toLowerCase();
+    name = Object.entries(profilesFile.channels ?? {}).find(
+      ([c]) => c.toLowerCase() === lower,
+    )?.[1];
+
+    if (!name && profilesFile.folders) {
+      const folder = (await getChannelFolders(client).catch(() => null))?.get(
+        lower,
+      );
+      if (folder) {
+        name = Object.entries(profilesFile.folders).find(
+          ([f]) => f.toLowerCase() === folder.toLowerCase(),
+        )?.[1];
+      }
+    }
+  }
+
+  const profile = name ? getProfile(name, config) : undefined;
+  if (name && !profile) {
+    console.warn(`Profile "${name}" mapped for #${channel} does not exist`);
+  }
+  return profile ?? getProfile(DEFAULT_PROFILE, config)!;
+}
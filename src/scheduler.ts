@@ -0,0 +1,143 @@
+import type { Config } from "./config.js";
+
+// ── Token buckets (per user / per channel) ───────────────────────
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const userBuckets = new Map<number, Bucket>();
+const channelBuckets = new Map<string, Bucket>();
+
+const HOUR_MS = 60 * 60_000;
+
+/** Refill a bucket for the time elapsed since its last update. */
+function refill<K>(
+  buckets: Map<K, Bucket>,
+  key: K,
+  burst: number,
+  perHour: number,
+): Bucket {
+  const now = Date.now();
+  const bucket = buckets.get(key) ?? { tokens: burst, updatedAt: now };
+  const refilled = ((now - bucket.updatedAt) / HOUR_MS) * perHour;
+  bucket.tokens = Math.min(burst, bucket.tokens + refilled);
+  bucket.updatedAt = now;
+  buckets.set(key, bucket);
+  return bucket;
+}
+
+/** Milliseconds until the bucket holds a whole token again. */
+function waitMs(bucket: Bucket, perHour: number): number {
+  if (perHour <= 0) return Infinity;
+  return Math.ceil(((1 - bucket.tokens) / perHour) * HOUR_MS);
+}
+
+export type QuotaResult =
+  | { ok: true }
+  | { ok: false; scope: "user" | "channel"; retryAfterMs: number };
+
+/**
+ * Take one token from the user's bucket and, for channel messages, the
+ * channel's bucket. Nothing is consumed unless both have a token left.
+ * A burst of 0 disables that limit.
+ */
+export function takeQuota(
+  userId: number,
+  channel: string | null,
+  config: Config,
+): QuotaResult {
+  const { userRateBurst, userRatePerHour } = config;
+  const { channelRateBurst, channelRatePerHour } = config;
+
+  const user =
+    userRateBurst > 0
+      ? refill(userBuckets, userId, userRateBurst, userRatePerHour)
+      : null;
+  const chan =
+    channel && channelRateBurst > 0
+      ? refill(channelBuckets, channel, channelRateBurst, channelRatePerHour)
+      : null;
+
+  if (user && user.tokens < 1) {
+    return { ok: false, scope: "user", retryAfterMs: waitMs(user, userRatePerHour) };
+  }
+  if (chan && chan.tokens < 1) {
+    return {
+      ok: false,
+      scope: "channel",
+      retryAfterMs: waitMs(chan, channelRatePerHour),
+    };
+  }
+
+  if (user) user.tokens -= 1;
+  if (chan) chan.tokens -= 1;
+  return { ok: true };
+}
+
+// ── Global concurrency cap ───────────────────────────────────────
+
+interface Waiter {
+  start: () => void;
+  onPosition?: (position: number) => void;
+}
+
+let running = 0;
+const queue: Waiter[] = [];
+
+/**
+ * Wait for one of `config.claudeMaxConcurrent` Claude slots. While queued,
+ * `onPosition` is called with the 1-based queue position whenever it
+ * changes. Resolves with a release function that must be called exactly
+ * once when the Claude call finishes; rejects if `signal` aborts first.
+ */
+export function acquireSlot(
+  config: Config,
+  onPosition?: (position: number) => void,
+  signal?: AbortSignal,
+): Promise<() => void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error("Cancelled while queued"));
+      return;
+    }
+
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      running--;
+      next(config);
+    };
+    const start = () => {
+      signal?.removeEventListener("abort", onAbort);
+      running++;
+      resolve(release);
+    };
+    const waiter: Waiter = { start, onPosition };
+    const onAbort = () => {
+      const idx = queue.indexOf(waiter);
+      if (idx === -1) return;
+      queue.splice(idx, 1);
+      queue.forEach((w, i) => w.onPosition?.(i + 1));
+      reject(new Error("Cancelled while queued"));
+    };
+
+    if (running < config.claudeMaxConcurrent && queue.length === 0) {
+      start();
+      return;
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+    queue.push(waiter);
+    onPosition?.(queue.length);
+  });
+}
+
+/** Start queued waiters while slots are free, then report new positions. */
+function next(config: Config): void {
+  while (running < config.claudeMaxConcurrent && queue.length > 0) {
+    queue.shift()!.start();
+  }
+  queue.forEach((w, i) => w.onPosition?.(i + 1));
+}
@@ -0,0 +1,68 @@
+import type { Service, ServiceContext } from "./types.js";
+import type { ZulipMessage } from "../zulip.js";
+import { conversationKey, replyRecipient, sendMessage } from "../zulip.js";
+import { getToolCalls } from "../db.js";
+import { renderToolCalls } from "../dashboards/audit.js";
+import { requireCapability } from "../policy.js";
+import { htmlToMarkdown } from "../html-to-markdown.js";
+
+const AUDIT_LIMIT = 25;
+
+const CMD_RE = /^audit(?:\s+(topic))?$/i;
+
+// ── Service definition ───────────────────────────────────────────
+
+const audit: Service = {
+  name: "audit",
+  description: "Audit log of the tools Claude runs on users' behalf",
+  defaultEnabled: true,
+  commands: [
+    { usage: "audit", description: "Show Claude's most recent tool calls (admin)" },
+    { usage: "audit @user", description: "Show tool calls made for a user (admin)" },
+    { usage: "audit topic", description: "Show tool calls made in this topic (admin)" },
+  ],
+
+  async onMessage(msg: ZulipMessage, ctx: ServiceContext): Promise<boolean> {
+    const text = htmlToMarkdown(msg.content).replace(/@\S+/g, "").trim();
+    const match = CMD_RE.exec(text);
+    if (!match) return false;
+
+    if (!(await requireCapability(ctx, msg, "admin"))) return true;
+
+    const recipient = replyRecipient(msg, ctx.botUserId);
+
+    // First mention that isn't the bot is the user to audit
+    const mentionRegex = /data-user-id="(\d+)"[^>]*>@([^<]+)</g;
+    let user: { id: number; name: string } | undefined;
+    let m: RegExpExecArray | null;
+    while ((m = mentionRegex.exec(msg.content)) !== null) {
+      if (Number(m[1]) !== ctx.botUserId) {
+        user = { id: Number(m[1]), name: m[2] };
+        break;
+      }
+    }
+
+    let heading: string;
+    let rows;
+    if (match[1]) {
+      const key = conversationKey(recipient);
+      heading = "**Tool calls in this topic**";
+      rows = getToolCalls({ ...key, limit: AUDIT_LIMIT });
+    } else if (user) {
+      heading = `**Tool calls made for ${user.name}**`;
+      rows = getToolCalls({ userId: user.id, limit: AUDIT_LIMIT });
+    } else {
+      heading = "**Most recent tool calls**";
+      rows = getToolCalls({ limit: AUDIT_LIMIT });
+    }
+
+    await sendMessage(
+      ctx.client,
+      recipient,
+      `${heading}\n\n${renderToolCalls(rows, ctx.config.zulipRealm)}`,
+    );
+    return true;
+  },
+};
+
+export default audit;
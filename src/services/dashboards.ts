@@ -1,6 +1,10 @@
 import type { Service, ServiceContext } from "./types.js";
-import type { ZulipMessage, ZulipReactionEvent } from "../zulip.js";
-import type { DashboardRow } from "../db.js";
+import type {
+  ZulipMessage,
+  ZulipReactionEvent,
+  ZulipStreamMessage,
+} from "../zulip.js";
+import type { DashboardRow, DigestRow } from "../db.js";
 import {
   createDashboard,
   getActiveDashboards,
@@ -8,14 +12,42 @@ import {
   getDashboardByNameAndLocation,
   getDashboardByMsgId,
   deleteDashboard,
+  createDigest,
+  getDigest,
+  getAllDigests,
+  findDigest,
+  getDigestsForChannel,
+  markDigestRun,
+  deleteDigest,
+  onTaskChange,
 } from "../db.js";
 import { dashboardRegistry } from "../dashboards/registry.js";
-import { htmlToText } from "../html-to-text.js";
+import { buildDigest } from "../digest.js";
+import { htmlToMarkdown } from "../html-to-markdown.js";
+import { requireCapability } from "../policy.js";
+import { acquireSlot } from "../scheduler.js";
+import { formatSchedule, nextOccurrence, parseSchedule } from "../time-parse.js";
+import { isSubscribed, sendMessage } from "../zulip.js";
 
 const DEFAULT_INTERVAL_MS = 60_000;
-
-/** Active intervals keyed by dashboard DB row id. */
-const timers = new Map<number, NodeJS.Timeout>();
+const DAY_MS = 86_400_000;
+/** Bursts of task changes (e.g. create + assign) refresh boards once. */
+const TASK_REFRESH_DELAY_MS = 2_000;
+
+/**
+ * Active timers: dashboard intervals keyed "dashboard:<id>", the
+ * timeout until each digest's next run keyed "digest:<id>", and a pending
+ * task board refresh keyed "task-refresh".
+ */
+const timers = new Map<string, NodeJS.Timeout>();
+
+function clearTimer(key: string): void {
+  const timer = timers.get(key);
+  if (timer) {
+    clearTimeout(timer);
+    timers.delete(key);
+  }
+}
 
 // ── Tick / lifecycle helpers ─────────────────────────────────────
 
@@ -52,33 +84,204 @@ async function tickDashboard(
 }
 
 function stopAndCleanup(row: DashboardRow, _ctx: ServiceContext): void {
-  const timer = timers.get(row.id);
-  if (timer) {
-    clearInterval(timer);
-    timers.delete(row.id);
-  }
+  clearTimer(`dashboard:${row.id}`);
   deleteDashboard(row.id);
 }
 
 function startTimer(row: DashboardRow, ctx: ServiceContext, immediate = false): void {
-  if (timers.has(row.id)) return;
+  const key = `dashboard:${row.id}`;
+  if (timers.has(key)) return;
   if (immediate) tickDashboard(row, ctx);
   const interval = setInterval(() => tickDashboard(row, ctx), row.interval_ms);
-  timers.set(row.id, interval);
+  timers.set(key, interval);
+}
+
+/** Refresh every dashboard that follows task changes, shortly after one. */
+function queueTaskRefresh(ctx: ServiceContext): void {
+  const key = "task-refresh";
+  if (timers.has(key)) return;
+  timers.set(
+    key,
+    setTimeout(() => {
+      timers.delete(key);
+      for (const row of getActiveDashboards()) {
+        if (dashboardRegistry.get(row.name)?.refreshOnTaskChange) tickDashboard(row, ctx);
+      }
+    }, TASK_REFRESH_DELAY_MS),
+  );
+}
+
+// ── Digests ──────────────────────────────────────────────────────
+
+/** SQLite `datetime('now')` values are UTC without a zone suffix. */
+function parseDbTime(value: string): Date {
+  return new Date(`${value.replace(" ", "T")}Z`);
+}
+
+function nextDigestRun(row: DigestRow): Date {
+  const schedule = parseSchedule(row.schedule)!;
+  return nextOccurrence(schedule, parseDbTime(row.last_run_at ?? row.created_at));
+}
+
+/**
+ * Arm the timer for a digest's next run. A run that was due while the
+ * bot was down happens right away.
+ */
+function scheduleDigest(row: DigestRow, ctx: ServiceContext): void {
+  const key = `digest:${row.id}`;
+  clearTimer(key);
+  const delay = Math.max(0, nextDigestRun(row).getTime() - Date.now());
+  timers.set(key, setTimeout(() => runDigest(row.id, ctx), delay));
+}
+
+async function runDigest(id: number, ctx: ServiceContext): Promise<void> {
+  timers.delete(`digest:${id}`);
+  const row = getDigest(id);
+  if (!row) return;
+
+  const schedule = parseSchedule(row.schedule)!;
+  const since = new Date(Date.now() - (schedule.period === "weekly" ? 7 : 1) * DAY_MS);
+  let release: (() => void) | undefined;
+  try {
+    release = await acquireSlot(ctx.config);
+    const digest = await buildDigest({
+      client: ctx.client,
+      config: ctx.config,
+      channel: row.channel,
+      since,
+    });
+    if (digest) {
+      const title = schedule.period === "weekly" ? "Weekly" : "Daily";
+      await sendMessage(
+        ctx.client,
+        { type: "stream", channel: row.target_channel, topic: row.target_topic },
+        `### ${title} digest: #**${row.channel}**\n` +
+          `*<time:${since.toISOString()}> to <time:${new Date().toISOString()}>*\n\n${digest}`,
+      );
+      console.log(`[dashboards] posted digest ${row.id} for #${row.channel}`);
+    } else {
+      console.log(`[dashboards] digest ${row.id}: no activity in #${row.channel}`);
+    }
+  } catch (err) {
+    // Skip this run rather than retrying in a loop; the next one is on schedule
+    console.warn(`[dashboards] digest ${row.id} failed:`, err);
+  } finally {
+    release?.();
+    markDigestRun(id);
+    const updated = getDigest(id);
+    if (updated) scheduleDigest(updated, ctx);
+  }
+}
+
+const DIGEST_USAGE =
+  "Usage: `digest add [#channel] daily|weekly [weekday] [time]` (times in UTC, " +
+  "e.g. `digest add daily 9:00` or `digest add #**dev** weekly fri 5pm`), " +
+  "`digest remove <id>`, `digest list`";
+
+async function handleDigestAdd(
+  argRaw: string,
+  msg: ZulipStreamMessage,
+  ctx: ServiceContext,
+): Promise<void> {
+  const target = { type: "stream" as const, channel: msg.display_recipient, topic: msg.subject };
+  const channelMatch = /^#\*\*([^*>]+)\*\*\s*/.exec(argRaw);
+  const channel = channelMatch ? channelMatch[1] : msg.display_recipient;
+  const schedule = parseSchedule(argRaw.slice(channelMatch?.[0].length ?? 0));
+  if (!schedule) {
+    await sendMessage(ctx.client, target, DIGEST_USAGE);
+    return;
+  }
+
+  if (channelMatch) {
+    const res = await ctx.client.callEndpoint("/get_stream_id", "GET", { stream: channel });
+    if ((res as { result: string }).result !== "success") {
+      await sendMessage(ctx.client, target, `I can't find a channel named #**${channel}**.`);
+      return;
+    }
+    // The digest reposts the channel's messages here, so the requester
+    // must be able to read them
+    if (!(await isSubscribed(ctx.client, msg.sender_id, channel))) {
+      await sendMessage(
+        ctx.client,
+        target,
+        `You can only set up digests of channels you're subscribed to, and you aren't in #**${channel}**.`,
+      );
+      return;
+    }
+  }
+
+  const spec = {
+    channel,
+    targetChannel: msg.display_recipient,
+    targetTopic: msg.subject,
+    schedule: formatSchedule(schedule),
+  };
+  if (findDigest(spec)) {
+    await sendMessage(ctx.client, target, "That digest is already set up here.");
+    return;
+  }
+
+  const id = createDigest({ ...spec, createdBy: msg.sender_full_name });
+  const row = getDigest(id)!;
+  scheduleDigest(row, ctx);
+  await sendMessage(
+    ctx.client,
+    target,
+    `Digest #${id} of #**${channel}** set up (${spec.schedule} UTC). ` +
+      `First one: <time:${nextDigestRun(row).toISOString()}>.`,
+  );
+  console.log(`[dashboards] added digest ${id} of #${channel} to #${target.channel}>${target.topic}`);
+}
+
+async function handleDigestRemove(
+  argRaw: string | undefined,
+  msg: ZulipStreamMessage,
+  ctx: ServiceContext,
+): Promise<void> {
+  const target = { type: "stream" as const, channel: msg.display_recipient, topic: msg.subject };
+  const id = Number(argRaw?.replace(/^#/, ""));
+  const row = Number.isInteger(id) ? getDigest(id) : undefined;
+  if (!row || (row.target_channel !== msg.display_recipient && row.channel !== msg.display_recipient)) {
+    await sendMessage(ctx.client, target, `No digest \`${argRaw ?? ""}\` found for this channel.`);
+    return;
+  }
+  clearTimer(`digest:${row.id}`);
+  deleteDigest(row.id);
+  await sendMessage(ctx.client, target, `Removed digest #${row.id} of #**${row.channel}**.`);
+  console.log(`[dashboards] removed digest ${row.id}`);
+}
+
+async function handleDigestList(
+  msg: ZulipStreamMessage,
+  ctx: ServiceContext,
+): Promise<void> {
+  const target = { type: "stream" as const, channel: msg.display_recipient, topic: msg.subject };
+  const rows = getDigestsForChannel(msg.display_recipient);
+  if (rows.length === 0) {
+    await sendMessage(ctx.client, target, "No digests for this channel.");
+    return;
+  }
+  const lines = rows.map(
+    (r) =>
+      `- **#${r.id}** #**${r.channel}** → #**${r.target_channel}>${r.target_topic}**, ` +
+      `${r.schedule} UTC (next <time:${nextDigestRun(r).toISOString()}>)`,
+  );
+  await sendMessage(ctx.client, target, `**Digests:**\n${lines.join("\n")}`);
 }
 
 // ── Command handlers ─────────────────────────────────────────────
 
 async function handleStart(
   argRaw: string,
-  msg: ZulipMessage,
+  msg: ZulipStreamMessage,
   ctx: ServiceContext,
 ): Promise<void> {
   const channel = msg.display_recipient;
   const topic = msg.subject;
 
   const [name, ...rest] = argRaw.split(/\s+/);
-  const dashParams = rest.join(" ");
+  // "@me" stands for whoever starts the dashboard
+  const dashParams = rest.join(" ").replace(/@me\b/gi, `@${msg.sender_id}`);
 
   const def = dashboardRegistry.get(name);
   if (!def) {
@@ -92,6 +295,8 @@ async function handleStart(
     return;
   }
 
+  if (def.capability && !(await requireCapability(ctx, msg, def.capability))) return;
+
   // Validate params if the dashboard requires them
   if (def.validateParams) {
     const err = def.validateParams(dashParams);
@@ -166,7 +371,7 @@ async function handleStart(
 
 async function handleStop(
   name: string | undefined,
-  msg: ZulipMessage,
+  msg: ZulipStreamMessage,
   ctx: ServiceContext,
 ): Promise<void> {
   const channel = msg.display_recipient;
@@ -212,7 +417,7 @@ async function handleStop(
 }
 
 async function handleList(
-  msg: ZulipMessage,
+  msg: ZulipStreamMessage,
   ctx: ServiceContext,
 ): Promise<void> {
   const channel = msg.display_recipient;
@@ -245,7 +450,7 @@ async function handleList(
 
 async function handleRefresh(
   name: string | undefined,
-  msg: ZulipMessage,
+  msg: ZulipStreamMessage,
   ctx: ServiceContext,
 ): Promise<void> {
   const channel = msg.display_recipient;
@@ -281,16 +486,20 @@ async function handleRefresh(
 // ── Service definition ───────────────────────────────────────────
 
 const CMD_RE = /^dashboard\s+(start|stop|list|refresh)(?:\s+(.+))?$/i;
+const DIGEST_RE = /^digest\s+(add|remove|list)(?:\s+(.+))?$/i;
 
 const dashboards: Service = {
   name: "dashboards",
-  description: "Pluggable self-updating dashboard messages",
+  description: "Pluggable self-updating dashboard messages and scheduled digests",
   defaultEnabled: true,
   commands: [
     { usage: "dashboard start <name> [params]", description: "Start a dashboard in this topic" },
     { usage: "dashboard stop [name]", description: "Stop a dashboard (or all in topic)" },
     { usage: "dashboard list", description: "List active dashboards in this topic" },
     { usage: "dashboard refresh [name]", description: "Refresh a dashboard (or all in topic) immediately" },
+    { usage: "digest add [#channel] daily|weekly [weekday] [time]", description: "Post a digest of a channel's activity to this topic on a schedule" },
+    { usage: "digest remove <id>", description: "Stop a scheduled digest" },
+    { usage: "digest list", description: "List digests for this channel" },
   ],
 
   async init(ctx: ServiceContext): Promise<void> {
@@ -308,6 +517,13 @@ const dashboards: Service = {
     if (rows.length > 0) {
       console.log(`  [dashboards] resumed ${timers.size} dashboard(s)`);
     }
+    onTaskChange(() => queueTaskRefresh(ctx));
+
+    const digests = getAllDigests();
+    for (const row of digests) scheduleDigest(row, ctx);
+    if (digests.length > 0) {
+      console.log(`  [dashboards] scheduled ${digests.length} digest(s)`);
+    }
   },
 
   async onReaction(event: ZulipReactionEvent, ctx: ServiceContext): Promise<void> {
@@ -329,13 +545,45 @@ const dashboards: Service = {
     msg: ZulipMessage,
     ctx: ServiceContext,
   ): Promise<boolean> {
-    const text = htmlToText(msg.content).replace(/@\S+/g, "").trim();
+    if (msg.type !== "stream") return false;
+    // Keep "@me" and user mentions (as "@<id>") in dashboard params such
+    // as `assignee=@me`; mentions of the bot are dropped as usual
+    const html = msg.content.replace(
+      /<span class="user-mention[^"]*" data-user-id="(\d+)">[^<]*<\/span>/g,
+      (mention, id: string) => (Number(id) === ctx.botUserId ? mention : `@${id}`),
+    );
+    const text = htmlToMarkdown(html).replace(/(^|\s)@\S+/g, "$1").trim();
+
+    const digestMatch = DIGEST_RE.exec(text);
+    if (digestMatch) {
+      const sub = digestMatch[1].toLowerCase() as "add" | "remove" | "list";
+      const argRaw = digestMatch[2]?.trim();
+      if (sub !== "list" && !(await requireCapability(ctx, msg, "manage_dashboards"))) {
+        return true;
+      }
+      switch (sub) {
+        case "add":
+          await handleDigestAdd(argRaw ?? "", msg, ctx);
+          return true;
+        case "remove":
+          await handleDigestRemove(argRaw?.split(/\s+/)[0], msg, ctx);
+          return true;
+        case "list":
+          await handleDigestList(msg, ctx);
+          return true;
+      }
+    }
+
     const match = CMD_RE.exec(text);
     if (!match) return false;
 
     const sub = match[1].toLowerCase() as "start" | "stop" | "list" | "refresh";
     const argRaw = match[2]?.trim(); // everything after subcommand
 
+    if (sub !== "list" && !(await requireCapability(ctx, msg, "manage_dashboards"))) {
+      return true;
+    }
+
     switch (sub) {
       case "start":
         if (!argRaw) {
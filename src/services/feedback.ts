@@ -0,0 +1,130 @@
+import type { Service, ServiceContext } from "./types.js";
+import type { ZulipMessage, ZulipReactionEvent } from "../zulip.js";
+import { conversationKey, replyRecipient, sendMessage } from "../zulip.js";
+import {
+  getClaudeAnswerByAnswer,
+  getLatestClaudeAnswer,
+  recordAnswerFeedback,
+  removeAnswerFeedback,
+} from "../db.js";
+import type { ClaudeAnswerRow } from "../db.js";
+import { htmlToMarkdown } from "../html-to-markdown.js";
+
+const THUMBS_UP = new Set(["+1", "thumbs_up", "like"]);
+const THUMBS_DOWN = new Set(["-1", "thumbs_down"]);
+
+/** How long a `feedback <comment>` still refers to the answer asked about. */
+const FOLLOW_UP_TTL_MS = 10 * 60_000;
+
+/** Answers awaiting a "what was wrong?" reply, keyed by conversation + user. */
+const pendingFollowUps = new Map<
+  string,
+  { answer: ClaudeAnswerRow; expiresAt: number }
+>();
+
+function followUpKey(msg: ZulipMessage, botUserId: number): string {
+  const key = conversationKey(replyRecipient(msg, botUserId));
+  return `${key.channel}\0${key.topic}\0${msg.sender_id}`;
+}
+
+// ── Service definition ───────────────────────────────────────────
+
+const feedback: Service = {
+  name: "feedback",
+  description: "Record 👍/👎 reactions and comments on Claude answers",
+  defaultEnabled: true,
+  commands: [
+    {
+      usage: "feedback [comment]",
+      description: "Tell the bot what was wrong with its last answer here",
+    },
+  ],
+
+  async onMessage(msg: ZulipMessage, ctx: ServiceContext): Promise<boolean> {
+    const text = htmlToMarkdown(msg.content).replace(/@\S+/g, "").trim();
+    const recipient = replyRecipient(msg, ctx.botUserId);
+    const pendingKey = followUpKey(msg, ctx.botUserId);
+
+    // Only `feedback ...` is taken as feedback, so follow-up questions and
+    // other commands in the topic still reach their handlers
+    const match = /^feedback(?:\s+([\s\S]+))?$/i.exec(text);
+    if (!match) return false;
+
+    // A comment answers an earlier "what was wrong?" if one is pending
+    const pending = pendingFollowUps.get(pendingKey);
+    pendingFollowUps.delete(pendingKey);
+    const key = conversationKey(recipient);
+    const answer =
+      pending && pending.expiresAt >= Date.now()
+        ? pending.answer
+        : getLatestClaudeAnswer(key.channel, key.topic);
+    if (!answer) {
+      await sendMessage(
+        ctx.client,
+        recipient,
+        "I haven't answered anything here yet, so there's nothing to give feedback on.",
+      );
+      return true;
+    }
+
+    const comment = match[1]?.trim();
+    if (comment) {
+      recordAnswerFeedback({
+        answer,
+        userName: msg.sender_full_name,
+        userId: msg.sender_id,
+        rating: -1,
+        comment,
+      });
+      await sendMessage(ctx.client, recipient, "Thanks, I've noted your feedback.");
+      return true;
+    }
+
+    pendingFollowUps.set(pendingKey, {
+      answer,
+      expiresAt: Date.now() + FOLLOW_UP_TTL_MS,
+    });
+    await sendMessage(
+      ctx.client,
+      recipient,
+      `Sorry about that, ${msg.sender_full_name}. What was wrong with my last answer? ` +
+        "Mention me with `feedback <what went wrong>` and I'll pass it on.",
+    );
+    return true;
+  },
+
+  async onReaction(
+    event: ZulipReactionEvent,
+    ctx: ServiceContext,
+  ): Promise<void> {
+    if (event.user_id === ctx.botUserId) return;
+    const rating = THUMBS_UP.has(event.emoji_name)
+      ? 1
+      : THUMBS_DOWN.has(event.emoji_name)
+        ? -1
+        : null;
+    if (rating === null) return;
+
+    const answer = getClaudeAnswerByAnswer(event.message_id);
+    if (!answer) return;
+
+    if (event.op === "remove") {
+      removeAnswerFeedback(answer.answer_msg_id, event.user_id, rating);
+      return;
+    }
+
+    const userRes = await ctx.client.callEndpoint(`/users/${event.user_id}`, "GET");
+    const user = userRes.user as { full_name: string } | undefined;
+    recordAnswerFeedback({
+      answer,
+      userName: user?.full_name ?? "Unknown",
+      userId: event.user_id,
+      rating,
+    });
+    console.log(
+      `[feedback] ${rating > 0 ? "👍" : "👎"} on answer ${answer.answer_msg_id} from ${user?.full_name}`,
+    );
+  },
+};
+
+export default feedback;
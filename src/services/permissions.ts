@@ -0,0 +1,76 @@
+import type { Service, ServiceContext } from "./types.js";
+import type { ZulipMessage } from "../zulip.js";
+import { replyRecipient, sendMessage } from "../zulip.js";
+import {
+  CAPABILITIES,
+  getEffectivePermissions,
+  requireCapability,
+} from "../policy.js";
+import type { Capability } from "../policy.js";
+import { htmlToMarkdown } from "../html-to-markdown.js";
+
+async function renderPermissions(
+  ctx: ServiceContext,
+  userId: number,
+): Promise<string> {
+  const perms = await getEffectivePermissions(ctx, userId);
+  const { user } = perms;
+
+  const groups = user.groups.length > 0 ? user.groups.join(", ") : "none";
+  const lines = [
+    `**Permissions for ${user.fullName}** (role: ${user.role}, groups: ${groups})`,
+    "",
+    "| Capability | Allowed | Granted by |",
+    "|---|:---:|---|",
+  ];
+  for (const cap of Object.keys(CAPABILITIES) as Capability[]) {
+    const allowed = perms.capabilities.has(cap);
+    const sources = perms.sources.get(cap)?.join(", ") ?? "";
+    lines.push(
+      `| \`${cap}\` — ${CAPABILITIES[cap]} | ${allowed ? "✅" : "❌"} | ${sources} |`,
+    );
+  }
+  return lines.join("\n");
+}
+
+// ── Service definition ───────────────────────────────────────────
+
+const permissions: Service = {
+  name: "permissions",
+  description: "Inspect role-based access to bot commands and Claude tools",
+  defaultEnabled: true,
+  commands: [
+    { usage: "permissions", description: "Show your effective permissions" },
+    { usage: "permissions @user", description: "Show another user's permissions (admin)" },
+  ],
+
+  async onMessage(msg: ZulipMessage, ctx: ServiceContext): Promise<boolean> {
+    const text = htmlToMarkdown(msg.content).replace(/@\S+/g, "").trim();
+    if (!/^permissions$/i.test(text)) return false;
+
+    // First mention that isn't the bot is the user to inspect
+    let targetId = msg.sender_id;
+    const mentionRegex = /data-user-id="(\d+)"/g;
+    let match: RegExpExecArray | null;
+    while ((match = mentionRegex.exec(msg.content)) !== null) {
+      const id = Number(match[1]);
+      if (id !== ctx.botUserId) {
+        targetId = id;
+        break;
+      }
+    }
+
+    if (targetId !== msg.sender_id && !(await requireCapability(ctx, msg, "admin"))) {
+      return true;
+    }
+
+    await sendMessage(
+      ctx.client,
+      replyRecipient(msg, ctx.botUserId),
+      await renderPermissions(ctx, targetId),
+    );
+    return true;
+  },
+};
+
+export default permissions;
@@ -0,0 +1,68 @@
+import type { Service, ServiceContext } from "./types.js";
+import type { ZulipMessage, ZulipReactionEvent } from "../zulip.js";
+import { getClaudeAnswerByAnswer } from "../db.js";
+import { getInflight } from "../inflight.js";
+import { getEffectivePermissions } from "../policy.js";
+import { answerQuestion } from "../bot.js";
+
+/** :repeat: regenerates with the same context and model. */
+const REGENERATE_EMOJI = "repeat";
+/** :zap: retries with CLAUDE_STRONG_MODEL. */
+const RETRY_STRONG_EMOJI = "zap";
+
+// ── Service definition ───────────────────────────────────────────
+
+const regenerate: Service = {
+  name: "regenerate",
+  description: "Regenerate a Claude answer by reacting :repeat: or :zap:",
+  defaultEnabled: true,
+
+  async onReaction(
+    event: ZulipReactionEvent,
+    ctx: ServiceContext,
+  ): Promise<void> {
+    if (event.op !== "add" || event.user_id === ctx.botUserId) return;
+    if (
+      event.emoji_name !== REGENERATE_EMOJI &&
+      event.emoji_name !== RETRY_STRONG_EMOJI
+    ) {
+      return;
+    }
+
+    const answer = getClaudeAnswerByAnswer(event.message_id);
+    if (!answer || answer.orphaned) return;
+    // Still generating (or already regenerating) — ignore repeat clicks
+    if (getInflight(answer.answer_msg_id)) return;
+    // Only the asker, or an approver/admin, may spend a retry on an answer
+    const perms = await getEffectivePermissions(ctx, event.user_id);
+    if (!perms.capabilities.has("ask")) return;
+    const moderator =
+      perms.capabilities.has("approve_writes") || perms.capabilities.has("admin");
+
+    const res = await ctx.client.callEndpoint(
+      `/messages/${answer.question_msg_id}`,
+      "GET",
+    );
+    const question = res.message as ZulipMessage | undefined;
+    if (!question) return;
+    if (question.sender_id !== event.user_id && !moderator) return;
+
+    const model =
+      event.emoji_name === RETRY_STRONG_EMOJI
+        ? ctx.config.claudeStrongModel
+        : undefined;
+    console.log(
+      `[regenerate] Re-answering ${question.id} in ${answer.answer_msg_id}` +
+        (model ? ` with ${model}` : ""),
+    );
+    // The new answer overwrites the old one; Zulip keeps it in edit history.
+    // The retry counts against whoever reacted.
+    await answerQuestion(question, ctx, {
+      replaceMessageId: answer.answer_msg_id,
+      model,
+      requestedBy: event.user_id,
+    });
+  },
+};
+
+export default regenerate;
@@ -0,0 +1,291 @@
+import type { Service, ServiceContext } from "./types.js";
+import type { ZulipMessage, ZulipRecipient } from "../zulip.js";
+import { isSubscribed, replyRecipient, sendMessage } from "../zulip.js";
+import type { ReminderRow } from "../db.js";
+import {
+  createReminder,
+  getReminder,
+  getAllReminders,
+  getRemindersForUser,
+  rescheduleReminder,
+  deleteReminder,
+} from "../db.js";
+import { htmlToMarkdown } from "../html-to-markdown.js";
+import { hasCapability } from "../policy.js";
+import type { Schedule } from "../time-parse.js";
+import {
+  formatSchedule,
+  nextOccurrence,
+  parseFutureTime,
+  parseRecurrence,
+  parseSchedule,
+} from "../time-parse.js";
+
+/** Topic used for channel reminders that don't name one. */
+const DEFAULT_TOPIC = "reminders";
+const MAX_REMINDERS_PER_USER = 50;
+/** Longest delay `setTimeout` accepts; later reminders re-arm on wake-up. */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+/** Deliveries this late (e.g. after downtime) mention when they were due. */
+const LATE_MS = 60_000;
+
+const REMIND_RE = /^remind\s+(me|here|#\*\*[^*]+\*\*|#\S+)\s+([\s\S]+)$/i;
+const LIST_RE = /^reminders(?:\s+(list|cancel)(?:\s+#?(\d+))?)?$/i;
+
+const USAGE =
+  "Usage: `remind me|here|#channel <when> to <what>`, e.g. `remind me in 2h to check the deploy`, " +
+  "`remind #**ops** tomorrow at 9: rotate keys` or `remind here every monday 9:30 to post the agenda`. " +
+  "Times are UTC: `in 2h`, `at 5pm`, `tomorrow 9am`, `next friday`, `2026-01-05 14:00`, `every day at 9am`.";
+
+/** Active timeouts keyed by reminder id. */
+const timers = new Map<number, NodeJS.Timeout>();
+
+// ── Parsing ──────────────────────────────────────────────────────
+
+interface ParsedReminder {
+  due: Date;
+  schedule: Schedule | null;
+  message: string;
+}
+
+function parseWhen(
+  text: string,
+  now: Date,
+): { due: Date; schedule: Schedule | null } | null {
+  const schedule = parseRecurrence(text);
+  if (schedule) return { due: nextOccurrence(schedule, now), schedule };
+  const due = parseFutureTime(text, now);
+  return due ? { due, schedule: null } : null;
+}
+
+/**
+ * Split "<when> to <what>" / "<when>: <what>", or "to <what> <when>"
+ * with the time at the end, into its parts.
+ */
+function parseReminder(text: string, now = new Date()): ParsedReminder | null {
+  const separated = /^(.+?)(?::\s+|\s+to\s+)([\s\S]+)$/i.exec(text);
+  if (separated) {
+    const when = parseWhen(separated[1], now);
+    if (when) return { ...when, message: separated[2].trim() };
+  }
+
+  // Time last: try the longest trailing phrase first
+  const words = text.split(/\s+/);
+  for (let i = 1; i < words.length; i++) {
+    const when = parseWhen(words.slice(i).join(" "), now);
+    if (!when) continue;
+    const message = words.slice(0, i).join(" ").replace(/^to\s+/i, "").trim();
+    return message ? { ...when, message } : null;
+  }
+  return null;
+}
+
+/** Where a reminder goes: "me" is a DM, "here" the current conversation. */
+function parseTarget(
+  target: string,
+  msg: ZulipMessage,
+): { channel: string; topic: string } {
+  if (target.toLowerCase() === "me") return { channel: "", topic: "" };
+  if (target.toLowerCase() === "here") {
+    return msg.type === "stream"
+      ? { channel: msg.display_recipient, topic: msg.subject }
+      : { channel: "", topic: "" };
+  }
+  const link = /^#\*\*([^*>]+)(?:>([^*]+))?\*\*$/.exec(target);
+  if (link) return { channel: link[1], topic: link[2] ?? DEFAULT_TOPIC };
+  return { channel: target.slice(1), topic: DEFAULT_TOPIC };
+}
+
+function describeTarget(row: Pick<ReminderRow, "channel" | "topic">): string {
+  return row.channel ? `#**${row.channel}>${row.topic}**` : "a DM";
+}
+
+// ── Scheduling ───────────────────────────────────────────────────
+
+function armReminder(row: ReminderRow, ctx: ServiceContext): void {
+  const existing = timers.get(row.id);
+  if (existing) clearTimeout(existing);
+  const delay = Math.min(Math.max(0, Date.parse(row.due_at) - Date.now()), MAX_TIMER_MS);
+  timers.set(row.id, setTimeout(() => fireReminder(row.id, ctx), delay));
+}
+
+async function fireReminder(id: number, ctx: ServiceContext): Promise<void> {
+  timers.delete(id);
+  const row = getReminder(id);
+  if (!row) return;
+  if (Date.parse(row.due_at) > Date.now()) {
+    // Woken early because of the timer cap
+    armReminder(row, ctx);
+    return;
+  }
+
+  const late = Date.now() - Date.parse(row.due_at) > LATE_MS;
+  const note = late ? ` *(was due <time:${row.due_at}>)*` : "";
+  const recipient: ZulipRecipient = row.channel
+    ? { type: "stream", channel: row.channel, topic: row.topic }
+    : { type: "private", userIds: [row.user_id] };
+  const content = row.channel
+    ? `⏰ Reminder from @_**${row.user_name}|${row.user_id}**: ${row.message}${note}`
+    : `⏰ Reminder: ${row.message}${note}`;
+  try {
+    await sendMessage(ctx.client, recipient, content);
+    console.log(`[reminders] delivered #${row.id} to ${describeTarget(row)}`);
+  } catch (err) {
+    console.warn(`[reminders] delivery of #${row.id} failed:`, err);
+  }
+
+  const schedule = row.schedule ? parseSchedule(row.schedule) : null;
+  if (schedule) {
+    const next = nextOccurrence(schedule, new Date()).toISOString();
+    rescheduleReminder(row.id, next);
+    armReminder({ ...row, due_at: next }, ctx);
+  } else {
+    deleteReminder(row.id);
+  }
+}
+
+// ── Command handlers ─────────────────────────────────────────────
+
+async function handleRemind(
+  targetRaw: string,
+  rest: string,
+  msg: ZulipMessage,
+  ctx: ServiceContext,
+): Promise<void> {
+  const recipient = replyRecipient(msg, ctx.botUserId);
+  const parsed = parseReminder(rest.trim());
+  if (!parsed) {
+    await sendMessage(ctx.client, recipient, USAGE);
+    return;
+  }
+
+  const target = parseTarget(targetRaw, msg);
+  if (target.channel && target.channel !== (msg.type === "stream" ? msg.display_recipient : "")) {
+    const res = await ctx.client.callEndpoint("/get_stream_id", "GET", { stream: target.channel });
+    if ((res as { result: string }).result !== "success") {
+      await sendMessage(ctx.client, recipient, `I can't find a channel named #**${target.channel}**.`);
+      return;
+    }
+    // The bot posts there on the sender's behalf, so they must be in the channel
+    if (!(await isSubscribed(ctx.client, msg.sender_id, target.channel))) {
+      await sendMessage(
+        ctx.client,
+        recipient,
+        `You can only set reminders in channels you're subscribed to, and you aren't in #**${target.channel}**.`,
+      );
+      return;
+    }
+  }
+
+  if (getRemindersForUser(msg.sender_id).length >= MAX_REMINDERS_PER_USER) {
+    await sendMessage(
+      ctx.client,
+      recipient,
+      `You already have ${MAX_REMINDERS_PER_USER} reminders. Cancel some with \`reminders cancel <id>\` first.`,
+    );
+    return;
+  }
+
+  const schedule = parsed.schedule ? formatSchedule(parsed.schedule) : null;
+  const id = createReminder({
+    userId: msg.sender_id,
+    userName: msg.sender_full_name,
+    message: parsed.message,
+    channel: target.channel,
+    topic: target.topic,
+    dueAt: parsed.due.toISOString(),
+    schedule,
+  });
+  armReminder(getReminder(id)!, ctx);
+
+  const repeat = schedule ? `, then ${schedule} UTC` : "";
+  await sendMessage(
+    ctx.client,
+    recipient,
+    `⏰ Reminder #${id} set for <time:${parsed.due.toISOString()}>${repeat} in ${describeTarget(target)}: ${parsed.message}`,
+  );
+  console.log(`[reminders] ${msg.sender_full_name} set #${id} for ${parsed.due.toISOString()}`);
+}
+
+async function handleList(msg: ZulipMessage, ctx: ServiceContext): Promise<void> {
+  const recipient = replyRecipient(msg, ctx.botUserId);
+  const rows = getRemindersForUser(msg.sender_id);
+  if (rows.length === 0) {
+    await sendMessage(ctx.client, recipient, "You have no reminders.");
+    return;
+  }
+  const lines = rows.map((r) => {
+    const repeat = r.schedule ? ` (${r.schedule} UTC)` : "";
+    return `- **#${r.id}** <time:${r.due_at}>${repeat} → ${describeTarget(r)}: ${r.message}`;
+  });
+  await sendMessage(
+    ctx.client,
+    recipient,
+    `**Your reminders:**\n${lines.join("\n")}\n\nCancel one with \`reminders cancel <id>\`.`,
+  );
+}
+
+async function handleCancel(
+  idRaw: string | undefined,
+  msg: ZulipMessage,
+  ctx: ServiceContext,
+): Promise<void> {
+  const recipient = replyRecipient(msg, ctx.botUserId);
+  const row = idRaw ? getReminder(Number(idRaw)) : undefined;
+  const allowed =
+    row &&
+    (row.user_id === msg.sender_id || (await hasCapability(ctx, msg.sender_id, "admin")));
+  if (!row || !allowed) {
+    await sendMessage(ctx.client, recipient, `No reminder \`${idRaw ?? ""}\` of yours found.`);
+    return;
+  }
+
+  const timer = timers.get(row.id);
+  if (timer) clearTimeout(timer);
+  timers.delete(row.id);
+  deleteReminder(row.id);
+  await sendMessage(ctx.client, recipient, `Cancelled reminder #${row.id}: ${row.message}`);
+  console.log(`[reminders] ${msg.sender_full_name} cancelled #${row.id}`);
+}
+
+// ── Service definition ───────────────────────────────────────────
+
+const reminders: Service = {
+  name: "reminders",
+  description: "One-off and recurring reminders, delivered by DM or to a topic",
+  defaultEnabled: true,
+  commands: [
+    { usage: "remind me|here|#channel <when> to <what>", description: "Set a reminder (e.g. `in 2h`, `tomorrow 9am`, `every monday 9:30`)" },
+    { usage: "reminders", description: "List your reminders" },
+    { usage: "reminders cancel <id>", description: "Cancel one of your reminders" },
+  ],
+
+  async init(ctx: ServiceContext): Promise<void> {
+    const rows = getAllReminders();
+    for (const row of rows) armReminder(row, ctx);
+    if (rows.length > 0) {
+      console.log(`  [reminders] scheduled ${rows.length} reminder(s)`);
+    }
+  },
+
+  async onMessage(msg: ZulipMessage, ctx: ServiceContext): Promise<boolean> {
+    const text = htmlToMarkdown(msg.content).replace(/@\S+/g, "").trim();
+
+    const remind = REMIND_RE.exec(text);
+    if (remind) {
+      await handleRemind(remind[1], remind[2], msg, ctx);
+      return true;
+    }
+
+    const list = LIST_RE.exec(text);
+    if (!list) return false;
+    if (list[1]?.toLowerCase() === "cancel") {
+      await handleCancel(list[2], msg, ctx);
+    } else {
+      await handleList(msg, ctx);
+    }
+    return true;
+  },
+};
+
+export default reminders;
@@ -0,0 +1,293 @@
+import type { Service, ServiceContext } from "./types.js";
+import type { ZulipMessage, ZulipRecipient } from "../zulip.js";
+import {
+  conversationKey,
+  fetchHistory,
+  replyRecipient,
+  sendMessage,
+  sendTarget,
+} from "../zulip.js";
+import { completeText } from "../claude.js";
+import type { ClaudeUsage } from "../claude.js";
+import { chunkByTokens, formatContextMessage } from "../context.js";
+import { recordClaudeUsage } from "../db.js";
+import { htmlToMarkdown } from "../html-to-markdown.js";
+import { requireCapability } from "../policy.js";
+import { acquireSlot, takeQuota } from "../scheduler.js";
+import { parsePastTime } from "../time-parse.js";
+
+/** Upper bound on how much history one summary reads. */
+const MAX_MESSAGES = 5000;
+/** Prompt size for each map step. */
+const CHUNK_TOKENS = 12_000;
+/** Action items posted as separate messages, so they can become tasks. */
+const MAX_PROMOTABLE_ITEMS = 10;
+
+const USAGE =
+  "Usage: `summarize` (whole conversation), `summarize 200` (last 200 messages) " +
+  "or `summarize since <time>` (e.g. `since yesterday`, `since 3 days ago`, `since 2026-01-05`).";
+
+interface Range {
+  limit: number;
+  since?: Date;
+  label: string;
+}
+
+interface Summary {
+  overview: string;
+  decisions: string[];
+  open_questions: string[];
+  action_items: Array<{ item: string; owner: string | null }>;
+}
+
+function parseRange(args: string): Range | null {
+  if (!args || args.toLowerCase() === "all") {
+    return { limit: MAX_MESSAGES, label: "the whole conversation" };
+  }
+  if (/^\d+$/.test(args)) {
+    const n = Math.min(Number(args), MAX_MESSAGES);
+    return n > 0 ? { limit: n, label: `the last ${n} messages` } : null;
+  }
+  const since = /^since\s+(.+)$/i.exec(args);
+  if (since) {
+    const date = parsePastTime(since[1]);
+    if (!date) return null;
+    return {
+      limit: MAX_MESSAGES,
+      since: date,
+      label: `messages since <time:${date.toISOString()}>`,
+    };
+  }
+  return null;
+}
+
+const MAP_PROMPT =
+  "You are reading one part of a longer Zulip conversation. Write concise notes on it: " +
+  "what was discussed, decisions made (with who decided and message ids like #123), " +
+  "questions raised and whether they were answered, and action items with their owners. " +
+  "Reply with the notes only.";
+
+const REDUCE_PROMPT =
+  "You summarize Zulip conversations. Given the conversation (or notes on its parts, in order), " +
+  "reply with JSON only, no code fence, in this shape:\n" +
+  '{"overview": "2-4 sentences", "decisions": ["..."], "open_questions": ["..."], ' +
+  '"action_items": [{"item": "...", "owner": "Full Name or null"}]}\n' +
+  "Only list decisions that were actually agreed, questions still unanswered at the end, " +
+  "and action items someone committed to or was asked to do. Refer to messages as #123 where useful.";
+
+/**
+ * Map-reduce the history: a single chunk is summarized directly, longer
+ * histories are first condensed into per-chunk notes.
+ */
+async function summarizeHistory(
+  messages: ZulipMessage[],
+  model: string,
+  onUsage: (u: ClaudeUsage) => void,
+): Promise<Summary> {
+  const chunks = chunkByTokens(messages.map(formatContextMessage), CHUNK_TOKENS);
+
+  let input: string;
+  if (chunks.length === 1) {
+    input = chunks[0];
+  } else {
+    const notes: string[] = [];
+    for (const [i, chunk] of chunks.entries()) {
+      const note = await completeText(chunk, { systemPrompt: MAP_PROMPT, model, onUsage });
+      notes.push(`Part ${i + 1} of ${chunks.length}:\n${note.trim()}`);
+    }
+    input = notes.join("\n\n");
+  }
+
+  const reply = await completeText(input, { systemPrompt: REDUCE_PROMPT, model, onUsage });
+  return parseSummary(reply);
+}
+
+function parseSummary(reply: string): Summary {
+  const json = reply.slice(reply.indexOf("{"), reply.lastIndexOf("}") + 1);
+  const raw = JSON.parse(json) as Partial<Summary>;
+  const strings = (v: unknown) =>
+    Array.isArray(v) ? v.filter((s): s is string => typeof s === "string") : [];
+  return {
+    overview: typeof raw.overview === "string" ? raw.overview : "",
+    decisions: strings(raw.decisions),
+    open_questions: strings(raw.open_questions),
+    action_items: Array.isArray(raw.action_items)
+      ? raw.action_items
+          .filter((a) => a && typeof a.item === "string")
+          .map((a) => ({ item: a.item, owner: typeof a.owner === "string" ? a.owner : null }))
+      : [],
+  };
+}
+
+function renderActionItem(a: Summary["action_items"][number]): string {
+  return a.owner ? `${a.item} (owner: ${a.owner})` : a.item;
+}
+
+function renderSummary(
+  summary: Summary,
+  range: Range,
+  count: number,
+  taskEmoji: string | null,
+): string {
+  const list = (items: string[]) =>
+    items.length > 0 ? items.map((s) => `- ${s}`).join("\n") : "*None.*";
+  const sections = [
+    `**Summary of ${range.label}** (${count} message${count === 1 ? "" : "s"})`,
+    summary.overview,
+    `**Decisions**\n${list(summary.decisions)}`,
+    `**Open questions**\n${list(summary.open_questions)}`,
+  ];
+  if (taskEmoji && summary.action_items.length > 0) {
+    sections.push(
+      `**Action items** — react with :${taskEmoji}: to any item below to turn it into a task.`,
+    );
+  } else {
+    sections.push(`**Action items**\n${list(summary.action_items.map(renderActionItem))}`);
+  }
+  return sections.filter(Boolean).join("\n\n");
+}
+
+async function summarize(
+  msg: ZulipMessage,
+  ctx: ServiceContext,
+  recipient: ZulipRecipient,
+  range: Range,
+): Promise<void> {
+  const key = conversationKey(recipient);
+  const status = await ctx.client.messages.send({
+    ...sendTarget(recipient),
+    content: ":loading: Reading the conversation...",
+  });
+  const clearStatus = () =>
+    ctx.client.callEndpoint(`/messages/${status.id}`, "DELETE").catch(() => {});
+
+  let history: ZulipMessage[];
+  try {
+    history = (
+      await fetchHistory(ctx.client, recipient, {
+        // The command and the status message are the newest two
+        limit: range.limit + 2,
+        since: range.since,
+      })
+    )
+      .filter((m) => m.id < msg.id && m.id !== status.id)
+      .slice(-range.limit);
+  } catch (err) {
+    console.error("[summarize] Failed to fetch history:", err);
+    await clearStatus();
+    await sendMessage(ctx.client, recipient, "Sorry, I couldn't read this conversation.");
+    return;
+  }
+  if (history.length === 0) {
+    await clearStatus();
+    await sendMessage(ctx.client, recipient, "There are no messages to summarize in that range.");
+    return;
+  }
+
+  const release = await acquireSlot(ctx.config);
+  const startedAt = Date.now();
+  const onUsage = (u: ClaudeUsage) =>
+    recordClaudeUsage({
+      userName: msg.sender_full_name,
+      userId: msg.sender_id,
+      channel: key.channel,
+      topic: key.topic,
+      model: u.model,
+      inputTokens: u.inputTokens,
+      outputTokens: u.outputTokens,
+      costUsd: u.costUsd,
+      durationMs: u.durationMs,
+      numTurns: u.numTurns,
+      success: true,
+    });
+
+  let summary: Summary;
+  try {
+    summary = await summarizeHistory(history, ctx.config.summaryModel, onUsage);
+  } catch (err) {
+    console.error("[summarize] Failed:", err);
+    await clearStatus();
+    await sendMessage(ctx.client, recipient, "Sorry, I couldn't summarize this conversation.");
+    return;
+  } finally {
+    release();
+  }
+  console.log(
+    `[summarize] ${history.length} messages in ${key.channel || "DM"} > ${key.topic} for ${msg.sender_full_name} (${Date.now() - startedAt}ms)`,
+  );
+
+  // Tasks are created from stream messages only
+  const promote = recipient.type === "stream";
+  const promoted = promote ? summary.action_items.slice(0, MAX_PROMOTABLE_ITEMS) : [];
+  const remaining = summary.action_items.slice(promoted.length);
+
+  await clearStatus();
+  await sendMessage(
+    ctx.client,
+    recipient,
+    renderSummary(
+      { ...summary, action_items: promote ? promoted : summary.action_items },
+      range,
+      history.length,
+      promote ? ctx.config.taskEmoji : null,
+    ),
+  );
+  for (const item of promoted) {
+    await sendMessage(ctx.client, recipient, renderActionItem(item));
+  }
+  if (promote && remaining.length > 0) {
+    await sendMessage(
+      ctx.client,
+      recipient,
+      `More action items:\n${remaining.map((a) => `- ${renderActionItem(a)}`).join("\n")}`,
+    );
+  }
+}
+
+// ── Service definition ───────────────────────────────────────────
+
+const summarizeService: Service = {
+  name: "summarize",
+  description: "Summarize a conversation's history: decisions, open questions, action items",
+  defaultEnabled: true,
+  commands: [
+    {
+      usage: "summarize [N|since <time>|all]",
+      description: "Summarize this topic (or DM), optionally only the last N messages or since a time",
+    },
+  ],
+
+  async onMessage(msg: ZulipMessage, ctx: ServiceContext): Promise<boolean> {
+    const text = htmlToMarkdown(msg.content).replace(/@\S+/g, "").trim();
+    const match = /^summari[sz]e(?:\s+([\s\S]+))?$/i.exec(text);
+    if (!match) return false;
+
+    const recipient = replyRecipient(msg, ctx.botUserId);
+    const range = parseRange(match[1]?.trim() ?? "");
+    if (!range) {
+      await sendMessage(ctx.client, recipient, USAGE);
+      return true;
+    }
+
+    if (!(await requireCapability(ctx, msg, "ask"))) return true;
+    const quota = takeQuota(
+      msg.sender_id,
+      recipient.type === "stream" ? recipient.channel : null,
+      ctx.config,
+    );
+    if (!quota.ok) {
+      const minutes = Math.max(1, Math.ceil(quota.retryAfterMs / 60_000));
+      await sendMessage(
+        ctx.client,
+        recipient,
+        `Sorry, the request limit has been reached. Please try again in about ${minutes} minute${minutes === 1 ? "" : "s"}.`,
+      );
+      return true;
+    }
+
+    await summarize(msg, ctx, recipient, range);
+    return true;
+  },
+};
+
+export default summarizeService;
@@ -1,20 +1,64 @@
 import type { Service, ServiceContext } from "./types.js";
-import type { ZulipClient, ZulipMessage, ZulipReactionEvent } from "../zulip.js";
+import type {
+  ZulipClient,
+  ZulipMessage,
+  ZulipReactionEvent,
+  ZulipStreamMessage,
+} from "../zulip.js";
 import type { Config } from "../config.js";
-import type { TaskRow, AssigneeRow } from "../db.js";
+import type {
+  TaskRow,
+  AssigneeRow,
+  TaskPriority,
+  TaskStatus,
+  TaskEventRow,
+  TaskCommentRow,
+} from "../db.js";
 import {
   createTask,
   getTaskBySourceMsgId,
   getTaskByTaskMsgId,
   updateTaskMsgRef,
-  completeTask,
-  reopenTask,
+  getTaskById,
+  setTaskStatus,
+  getTaskEvents,
+  CLOSED_TASK_STATUSES,
+  getTaskByOwnTopic,
+  addTaskComment,
+  getTaskComments,
+  getTaskCommentStats,
   addAssignees,
   removeAssignees,
   getAssignees,
   getTasksForUser,
+  getTasksDueSoon,
+  getOverdueTasks,
+  markTaskNotified,
 } from "../db.js";
-import { htmlToText } from "../html-to-text.js";
+import { htmlToMarkdown } from "../html-to-markdown.js";
+import { hasCapability, requireCapability } from "../policy.js";
+import { parseFutureTime } from "../time-parse.js";
+import { isSubscribed, sendMessage } from "../zulip.js";
+
+/** How often to look for tasks coming due or overdue. */
+const DUE_CHECK_INTERVAL_MS = 5 * 60_000;
+
+export const PRIORITY_LABELS: Record<TaskPriority, string> = {
+  high: "\ud83d\udd34 High",
+  med: "\ud83d\udfe1 Medium",
+  low: "\ud83d\udfe2 Low",
+};
+
+const STATUS_EMOJI: Record<string, string> = {
+  todo: "\ud83d\udccb",
+  in_progress: "\ud83d\udd28",
+  in_review: "\ud83d\udc40",
+  done: "\u2705",
+  wont_do: "\ud83d\udeab",
+};
+
+/** History entries shown on the task card; `task history` shows all. */
+const CARD_HISTORY_LIMIT = 10;
 
 interface ZulipStream {
   stream_id: number;
@@ -156,6 +200,49 @@ async function resolveTasksChannel(
 
 // ── Rendering ────────────────────────────────────────────────────
 
+export function isClosed(status: TaskStatus): boolean {
+  return CLOSED_TASK_STATUSES.includes(status);
+}
+
+export function statusEmoji(status: TaskStatus): string {
+  return STATUS_EMOJI[status] ?? "\ud83d\udccb";
+}
+
+/** "in_review" → "In review". */
+export function statusLabel(status: TaskStatus): string {
+  if (status === "wont_do") return "Won't do";
+  const text = status.replace(/_/g, " ");
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function renderStatus(task: TaskRow, config: Config): string {
+  if (isClosed(task.status)) {
+    const by = task.completed_by ? ` by ${task.completed_by}` : "";
+    return task.status === "done"
+      ? `Done${by}`
+      : `${statusLabel(task.status)} \u2014 closed${by}`;
+  }
+  const hints = config.taskStates
+    .filter((s) => s.status !== task.status)
+    .map((s) => `:${s.emoji}: ${statusLabel(s.status).toLowerCase()}`);
+  return hints.length > 0
+    ? `${statusLabel(task.status)} \u2014 react ${hints.join(" \u00b7 ")}`
+    : statusLabel(task.status);
+}
+
+/** Zulip global time for a SQLite `datetime('now')` value (UTC, no zone). */
+function dbTime(value: string): string {
+  return `<time:${value.replace(" ", "T")}Z>`;
+}
+
+function renderTaskEvent(event: TaskEventRow): string {
+  const time = dbTime(event.created_at);
+  const change = event.from_status
+    ? `${statusLabel(event.from_status)} \u2192 ${statusLabel(event.to_status)}`
+    : `created as ${statusLabel(event.to_status)}`;
+  return `- ${time} ${event.actor_name}: ${change}`;
+}
+
 function renderTaskCard(
   task: TaskRow,
   assignees: AssigneeRow[],
@@ -163,14 +250,8 @@ function renderTaskCard(
 ): string {
   const msgLink = `${config.zulipRealm}/#narrow/channel/${encodeURIComponent(task.source_channel)}/topic/${encodeURIComponent(task.source_topic)}/near/${task.source_msg_id}`;
 
-  const statusEmoji = task.status === "done" ? "\u2705" : "\ud83d\udccb";
-  const statusText =
-    task.status === "done"
-      ? `Done${task.completed_by ? ` by ${task.completed_by}` : ""}`
-      : "Open \u2014 react with :check: when done";
-
   const lines = [
-    `${statusEmoji} **Task** \u2014 [source message](${msgLink})`,
+    `${statusEmoji(task.status)} **Task #${task.id}** \u2014 [source message](${msgLink})`,
     "",
     quote(task.content),
     "",
@@ -183,7 +264,34 @@ function renderTaskCard(
     lines.push(`**Assigned to**: ${mentions.join(", ")}`);
   }
   lines.push(`**Created by**: ${task.creator_name}`);
-  lines.push(`**Status**: ${statusText}`);
+  if (task.priority) {
+    lines.push(`**Priority**: ${PRIORITY_LABELS[task.priority]}`);
+  }
+  if (task.due_at) {
+    const overdue = !isClosed(task.status) && Date.parse(task.due_at) < Date.now();
+    lines.push(`**Due**: <time:${task.due_at}>${overdue ? " \u26a0\ufe0f overdue" : ""}`);
+  }
+  if (task.labels) {
+    lines.push(`**Labels**: ${renderLabels(task.labels)}`);
+  }
+  lines.push(`**Status**: ${renderStatus(task, config)}`);
+
+  const events = getTaskEvents(task.id);
+  const comments = getTaskCommentStats(task.id);
+  const lastActivity = [comments.last_at, events[events.length - 1]?.created_at ?? task.created_at]
+    .filter((t): t is string => !!t)
+    .sort()
+    .pop()!;
+  lines.push(`**Comments**: ${comments.count} \u00b7 **Last activity**: ${dbTime(lastActivity)}`);
+
+  if (events.length > 1) {
+    lines.push(
+      "",
+      "```spoiler History",
+      ...events.slice(-CARD_HISTORY_LIMIT).map(renderTaskEvent),
+      "```",
+    );
+  }
 
   return lines.join("\n");
 }
@@ -204,6 +312,263 @@ async function syncTaskMessage(
     );
 }
 
+/** "backend,infra" → "`backend` `infra`". */
+export function renderLabels(labels: string): string {
+  return labels
+    .split(",")
+    .map((l) => `\`${l}\``)
+    .join(" ");
+}
+
+export function taskMessageLink(task: TaskRow, config: Config): string | null {
+  if (!task.task_channel || !task.task_topic || !task.task_msg_id) return null;
+  return `${config.zulipRealm}/#narrow/channel/${encodeURIComponent(task.task_channel)}/topic/${encodeURIComponent(task.task_topic)}/near/${task.task_msg_id}`;
+}
+
+// ── Option parsing ───────────────────────────────────────────────
+
+interface TaskOptions {
+  dueAt?: string;
+  priority?: TaskPriority;
+  labels?: string[];
+}
+
+/** Parse a due date; a day without a time means the end of that day. */
+function parseDueDate(text: string): Date | null {
+  return parseFutureTime(`${text} 23:59`) ?? parseFutureTime(text);
+}
+
+/**
+ * Parse `--due <date>`, `--priority high|med|low` and `--label <name>`
+ * (repeatable, or comma-separated) from a task command.
+ */
+function parseTaskOptions(text: string): TaskOptions | { error: string } {
+  const options: TaskOptions = {};
+
+  const due = /--due\s+(.+?)(?=\s+--|$)/i.exec(text);
+  if (due) {
+    const date = parseDueDate(due[1]);
+    if (!date) {
+      return {
+        error: `I couldn't understand the due date \`${due[1]}\`. Try e.g. \`--due friday\`, \`--due tomorrow 5pm\` or \`--due 2026-11-01\` (UTC).`,
+      };
+    }
+    options.dueAt = date.toISOString();
+  }
+
+  const priority = /--priority\s+(\S+)/i.exec(text);
+  if (priority) {
+    const value = priority[1].toLowerCase();
+    const normalized = value === "medium" ? "med" : value;
+    if (normalized !== "high" && normalized !== "med" && normalized !== "low") {
+      return { error: `Unknown priority \`${priority[1]}\`. Use \`high\`, \`med\` or \`low\`.` };
+    }
+    options.priority = normalized;
+  }
+
+  const labels = [...text.matchAll(/--label\s+(\S+)/gi)].flatMap((m) =>
+    m[1].toLowerCase().split(",").filter(Boolean),
+  );
+  const badLabel = labels.find((l) => !/^[\w-]+$/.test(l));
+  if (badLabel) {
+    return { error: `Labels can only contain letters, digits, \`_\` and \`-\` (got \`${badLabel}\`).` };
+  }
+  if (labels.length > 0) options.labels = [...new Set(labels)];
+
+  return options;
+}
+
+// ── Due date notifications ───────────────────────────────────────
+
+/**
+ * DM assignees about open tasks due within `TASK_DUE_SOON_HOURS`, and
+ * post a notice in the task's topic once a task is overdue. Each
+ * notification is sent once per task.
+ */
+async function checkDueTasks(ctx: ServiceContext): Promise<void> {
+  const now = Date.now();
+
+  for (const task of getTasksDueSoon(new Date(now + ctx.config.taskDueSoonMs).toISOString())) {
+    markTaskNotified(task.id, "due_soon");
+    // Already past due: the overdue notice covers it
+    if (Date.parse(task.due_at!) <= now) continue;
+    const link = taskMessageLink(task, ctx.config);
+    const preview = truncate(task.content, 80);
+    for (const a of getAssignees(task.id)) {
+      if (!a.user_id) continue;
+      await ctx.client.messages
+        .send({
+          to: [a.user_id],
+          type: "private",
+          content: `\u23f0 Task due <time:${task.due_at}>: ${link ? `[${preview}](${link})` : preview}`,
+        })
+        .catch((err) => console.error(`  [tasks] failed to DM ${a.user_name}:`, err));
+    }
+  }
+
+  for (const task of getOverdueTasks(new Date(now).toISOString())) {
+    markTaskNotified(task.id, "overdue");
+    if (!task.task_channel || !task.task_topic) continue;
+    const assignees = getAssignees(task.id);
+    const mentions = assignees
+      .filter((a) => a.user_id)
+      .map((a) => `@**${a.user_name}|${a.user_id}**`);
+    await ctx.client.messages.send({
+      to: task.task_channel,
+      type: "stream",
+      subject: task.task_topic,
+      content: `\u26a0\ufe0f This task is overdue (was due <time:${task.due_at}>).${mentions.length ? ` ${mentions.join(", ")}` : ""}`,
+    });
+    // Re-render so the card shows the overdue marker
+    await syncTaskMessage(ctx.client, task, assignees, ctx.config);
+    console.log(`  [tasks] task ${task.id} is overdue`);
+  }
+}
+
+// ── Visibility ───────────────────────────────────────────────────
+
+/**
+ * Whether the sender of `msg` may see `task` posted in this channel: it
+ * was created or carded here, or in a channel they're subscribed to.
+ */
+async function canSeeTask(
+  task: TaskRow,
+  msg: ZulipStreamMessage,
+  ctx: ServiceContext,
+): Promise<boolean> {
+  const channels = [task.source_channel, task.task_channel].filter(
+    (c): c is string => !!c,
+  );
+  if (channels.includes(msg.display_recipient)) return true;
+  for (const channel of channels) {
+    if (await isSubscribed(ctx.client, msg.sender_id, channel)) return true;
+  }
+  return false;
+}
+
+// ── Workflow history ─────────────────────────────────────────────
+
+/** The state a task was in before it entered its current one. */
+function previousStatus(task: TaskRow): TaskStatus | null {
+  const events = getTaskEvents(task.id);
+  for (let i = events.length - 1; i >= 0; i--) {
+    if (events[i].to_status === task.status) return events[i].from_status;
+  }
+  return null;
+}
+
+async function handleTaskHistory(
+  msg: ZulipStreamMessage,
+  ctx: ServiceContext,
+  idArg: string | undefined,
+): Promise<void> {
+  const quotedId = extractQuotedMessageId(msg.content);
+  const task = idArg
+    ? getTaskById(Number(idArg))
+    : quotedId
+      ? getTaskByTaskMsgId(quotedId)
+      : undefined;
+
+  // Hidden tasks get the same reply as missing ones (see `task show`)
+  if (!task || !(await canSeeTask(task, msg, ctx))) {
+    await ctx.client.messages.send({
+      to: msg.display_recipient,
+      type: "stream",
+      subject: msg.subject,
+      content: idArg
+        ? `There's no task #${idArg}.`
+        : "Usage: `task history <id>`, or quote-reply to a task and type `@bot task history`",
+    });
+    return;
+  }
+
+  const link = taskMessageLink(task, ctx.config);
+  const preview = truncate(task.content, 80);
+  const lines = [
+    `**History of task #${task.id}**: ${link ? `[${preview}](${link})` : preview}`,
+    "",
+    ...getTaskEvents(task.id).map(renderTaskEvent),
+  ];
+  await ctx.client.messages.send({
+    to: msg.display_recipient,
+    type: "stream",
+    subject: msg.subject,
+    content: lines.join("\n"),
+  });
+}
+
+// ── Comments ─────────────────────────────────────────────────────
+
+/** A comment's text, minus the quoted task card of a quote-reply. */
+function commentText(html: string): string {
+  return htmlToMarkdown(html, { mentions: "keep", quotes: "strip" })
+    .replace(/^(@_?\*\*[^*]+\*\* )?\[said\]\([^)]*\):?\s*/, "")
+    .trim();
+}
+
+/**
+ * Capture a message as a task comment if it was posted in an
+ * `--own-topic` task's topic or quote-replies a task card, and refresh
+ * the card's comment count.
+ */
+async function captureComment(
+  msg: ZulipStreamMessage,
+  ctx: ServiceContext,
+): Promise<void> {
+  const quotedId = extractQuotedMessageId(msg.content);
+  const task =
+    (quotedId ? getTaskByTaskMsgId(quotedId) : undefined) ??
+    getTaskByOwnTopic(msg.display_recipient, msg.subject);
+  if (!task) return;
+
+  const content = commentText(msg.content);
+  if (!content) return;
+  const added = addTaskComment({
+    taskId: task.id,
+    msgId: msg.id,
+    authorName: msg.sender_full_name,
+    authorId: msg.sender_id,
+    content,
+  });
+  if (!added) return;
+
+  await syncTaskMessage(ctx.client, task, getAssignees(task.id), ctx.config);
+  console.log(`  [tasks] comment on task ${task.id} from ${msg.sender_full_name}`);
+}
+
+function renderTaskComment(comment: TaskCommentRow): string {
+  return `**${comment.author_name}** ${dbTime(comment.created_at)}:\n${quote(comment.content)}`;
+}
+
+async function handleTaskShow(
+  msg: ZulipStreamMessage,
+  ctx: ServiceContext,
+  id: number,
+): Promise<void> {
+  const recipient = {
+    type: "stream" as const,
+    channel: msg.display_recipient,
+    topic: msg.subject,
+  };
+  const task = getTaskById(id);
+  // A task the asker can't see is reported as missing, so ids don't leak
+  if (!task || !(await canSeeTask(task, msg, ctx))) {
+    await sendMessage(ctx.client, recipient, `There's no task #${id}.`);
+    return;
+  }
+
+  const comments = getTaskComments(task.id);
+  const sections = [renderTaskCard(task, getAssignees(task.id), ctx.config)];
+  const link = taskMessageLink(task, ctx.config);
+  if (link) sections.push(`[Task card](${link}) in #**${task.task_channel}>${task.task_topic}**`);
+  sections.push(
+    comments.length > 0
+      ? `**Comments** (${comments.length}):\n\n${comments.map(renderTaskComment).join("\n\n")}`
+      : "*No comments yet.*",
+  );
+  await sendMessage(ctx.client, recipient, sections.join("\n\n"));
+}
+
 // ── Mention parsing helpers ──────────────────────────────────────
 
 interface ParsedMention {
@@ -235,10 +600,11 @@ function extractQuotedMessageId(html: string): number | null {
 // ── Command handlers ─────────────────────────────────────────────
 
 async function handleTaskCreation(
-  msg: ZulipMessage,
+  msg: ZulipStreamMessage,
   ctx: ServiceContext,
   mentions: ParsedMention[],
   ownTopic: boolean,
+  options: TaskOptions,
 ): Promise<void> {
   const channel = msg.display_recipient;
   const topic = msg.subject;
@@ -278,7 +644,7 @@ async function handleTaskCreation(
     return;
   }
 
-  const content = htmlToText(targetMsg.content);
+  const content = htmlToMarkdown(targetMsg.content);
   const tasksChannel = isTasksChannel(channel, ctx.config)
     ? channel
     : await resolveTasksChannel(ctx, channel);
@@ -287,10 +653,14 @@ async function handleTaskCreation(
   const taskId = createTask({
     content,
     creatorName: msg.sender_full_name,
+    creatorUserId: msg.sender_id,
     sourceChannel: channel,
     sourceTopic: topic,
     sourceMsgId: targetMsg.id,
     ownTopic,
+    dueAt: options.dueAt,
+    priority: options.priority,
+    labels: options.labels,
   });
 
   // Add assignees
@@ -340,6 +710,9 @@ async function handleTaskCreation(
   if (assigneeMentions.length) {
     parts.push(`assigned to ${assigneeMentions.join(", ")}`);
   }
+  if (options.dueAt) {
+    parts.push(`due <time:${options.dueAt}>`);
+  }
   await ctx.client.messages.send({
     to: channel,
     type: "stream",
@@ -349,7 +722,7 @@ async function handleTaskCreation(
 }
 
 async function handleAssign(
-  msg: ZulipMessage,
+  msg: ZulipStreamMessage,
   ctx: ServiceContext,
   removing: boolean,
 ): Promise<void> {
@@ -417,7 +790,7 @@ async function handleAssign(
 }
 
 async function handleMyTasks(
-  msg: ZulipMessage,
+  msg: ZulipStreamMessage,
   ctx: ServiceContext,
   userName: string,
 ): Promise<void> {
@@ -461,14 +834,20 @@ async function handleMyTasks(
 
 function formatTaskLine(task: TaskRow, ctx: ServiceContext): string {
   const preview = truncate(task.content, 80);
-  const statusEmoji = task.status === "done" ? "\u2705" : "\ud83d\udccb";
-
-  if (task.task_channel && task.task_topic && task.task_msg_id) {
-    const link = `${ctx.config.zulipRealm}/#narrow/channel/${encodeURIComponent(task.task_channel)}/topic/${encodeURIComponent(task.task_topic)}/near/${task.task_msg_id}`;
-    return `${statusEmoji} [${preview}](${link})\n   #**${task.task_channel}>${task.task_topic}**\n`;
+  const emoji = statusEmoji(task.status);
+  const meta = [
+    task.status !== "todo" && !isClosed(task.status) ? statusLabel(task.status) : "",
+    task.priority ? PRIORITY_LABELS[task.priority] : "",
+    task.due_at ? `due <time:${task.due_at}>` : "",
+  ].filter(Boolean);
+  const suffix = meta.length > 0 ? ` \u2014 ${meta.join(", ")}` : "";
+
+  const link = taskMessageLink(task, ctx.config);
+  if (link) {
+    return `${emoji} [${preview}](${link})${suffix}\n   #**${task.task_channel}>${task.task_topic}**\n`;
   }
 
-  return `${statusEmoji} ${preview}\n`;
+  return `${emoji} ${preview}${suffix}\n`;
 }
 
 // ── Service definition ───────────────────────────────────────────
@@ -481,18 +860,41 @@ const tasks: Service = {
   commands: [
     { usage: "task", description: "Promote the message above into a task" },
     { usage: "task --own-topic", description: "Promote into a task with its own topic" },
+    { usage: "task --due <date> --priority high|med|low", description: "Set a due date and/or priority when creating a task" },
+    { usage: "task --label <name>", description: "Label a task when creating it (repeatable)" },
+    { usage: "task show <id>", description: "Show a task with its comments" },
+    { usage: "task history [id]", description: "Show a task's state changes (or quote-reply to task)" },
     { usage: "assign @user", description: "Assign a user to a task (quote-reply to task)" },
     { usage: "unassign @user", description: "Remove a user from a task (quote-reply to task)" },
     { usage: "my tasks", description: "List tasks assigned to or created by you" },
     { usage: "tasks @user", description: "List tasks for a specific user" },
   ],
 
+  async init(ctx: ServiceContext): Promise<void> {
+    const check = () =>
+      checkDueTasks(ctx).catch((err) =>
+        console.error("  [tasks] due date check failed:", err),
+      );
+    check();
+    setInterval(check, DUE_CHECK_INTERVAL_MS);
+  },
+
+  async onAnyMessage(
+    msg: ZulipMessage,
+    ctx: ServiceContext,
+    mentioned: boolean,
+  ): Promise<void> {
+    // Mentions are commands, not discussion
+    if (msg.type !== "stream" || mentioned) return;
+    await captureComment(msg, ctx);
+  },
 
   async onMessage(
     msg: ZulipMessage,
     ctx: ServiceContext,
   ): Promise<boolean> {
-    const text = htmlToText(msg.content);
+    if (msg.type !== "stream") return false;
+    const text = htmlToMarkdown(msg.content);
     const stripped = text.replace(/@\S+/g, "").trim();
 
     // "my tasks"
@@ -513,16 +915,42 @@ const tasks: Service = {
     // "assign" / "unassign"
     const assignMatch = stripped.match(/^(un)?assign\s*$/i);
     if (assignMatch) {
+      if (!(await requireCapability(ctx, msg, "manage_tasks"))) return true;
       await handleAssign(msg, ctx, !!assignMatch[1]);
       return true;
     }
 
+    // "task show <id>"
+    const showMatch = stripped.match(/^task\s+show\s+#?(\d+)\s*$/i);
+    if (showMatch) {
+      await handleTaskShow(msg, ctx, Number(showMatch[1]));
+      return true;
+    }
+
+    // "task history"
+    const historyMatch = stripped.match(/^task\s+history(?:\s+#?(\d+))?\s*$/i);
+    if (historyMatch) {
+      await handleTaskHistory(msg, ctx, historyMatch[1]);
+      return true;
+    }
+
     // "task" creation
     if (!stripped.match(/^task\b/i)) return false;
+    if (!(await requireCapability(ctx, msg, "manage_tasks"))) return true;
 
     const ownTopic = /--own-topic/i.test(text);
+    const options = parseTaskOptions(text);
+    if ("error" in options) {
+      await ctx.client.messages.send({
+        to: msg.display_recipient,
+        type: "stream",
+        subject: msg.subject,
+        content: options.error,
+      });
+      return true;
+    }
     const mentions = parseMentions(msg.content, ctx.botUserId);
-    await handleTaskCreation(msg, ctx, mentions, ownTopic);
+    await handleTaskCreation(msg, ctx, mentions, ownTopic, options);
     return true;
   },
 
@@ -532,8 +960,11 @@ const tasks: Service = {
   ): Promise<void> {
     if (event.user_id === ctx.botUserId) return;
 
-    // ── :check: reaction → complete/reopen task ──────────────────
-    if (event.emoji_name === "check") {
+    // ── State reactions (e.g. :check:) → move task through workflow ──
+    const transition = ctx.config.taskStates.find(
+      (s) => s.emoji === event.emoji_name,
+    );
+    if (transition) {
       const task = getTaskByTaskMsgId(event.message_id);
       if (!task) return;
 
@@ -547,15 +978,20 @@ const tasks: Service = {
         | undefined;
       const reactorName = user?.full_name ?? "Unknown";
 
+      let next: TaskStatus;
       if (event.op === "add") {
-        completeTask(task.id, reactorName);
+        next = transition.status;
       } else {
-        reopenTask(task.id);
+        // Removing the reaction undoes the transition it made
+        if (task.status !== transition.status) return;
+        next = previousStatus(task) ?? "todo";
       }
+      if (next === task.status) return;
 
-      const updatedTask = { ...task, status: (event.op === "add" ? "done" : "open") as "done" | "open", completed_by: event.op === "add" ? reactorName : null, completed_at: event.op === "add" ? new Date().toISOString() : null };
+      setTaskStatus(task.id, next, { name: reactorName, id: event.user_id });
       const assignees = getAssignees(task.id);
-      await syncTaskMessage(ctx.client, updatedTask, assignees, ctx.config);
+      await syncTaskMessage(ctx.client, getTaskById(task.id)!, assignees, ctx.config);
+      console.log(`  [tasks] task ${task.id}: ${task.status} -> ${next} by ${reactorName}`);
       return;
     }
 
@@ -572,6 +1008,7 @@ const tasks: Service = {
 
     // Duplicate check
     if (getTaskBySourceMsgId(msg.id)) return;
+    if (!(await hasCapability(ctx, event.user_id, "manage_tasks"))) return;
 
     const userRes = await ctx.client.callEndpoint(
       `/users/${event.user_id}`,
@@ -582,7 +1019,7 @@ const tasks: Service = {
       | undefined;
     const reactorName = user?.full_name ?? "Unknown";
 
-    const content = htmlToText(msg.content);
+    const content = htmlToMarkdown(msg.content);
     const inTasksChannel = isTasksChannel(msg.display_recipient, ctx.config);
     const tasksChannel = inTasksChannel
       ? msg.display_recipient
@@ -591,6 +1028,7 @@ const tasks: Service = {
     const taskId = createTask({
       content,
       creatorName: reactorName,
+      creatorUserId: event.user_id,
       sourceChannel: msg.display_recipient,
       sourceTopic: msg.subject,
       sourceMsgId: msg.id,
@@ -37,6 +37,16 @@ export interface Service {
    */
   onMessage?(msg: ZulipMessage, ctx: ServiceContext): Promise<boolean>;
 
+  /**
+   * Observe every message the bot receives (not just @-mentions), except
+   * its own. Runs before `onMessage` and can't claim the message.
+   */
+  onAnyMessage?(
+    msg: ZulipMessage,
+    ctx: ServiceContext,
+    mentioned: boolean,
+  ): Promise<void>;
+
   /** Handle a reaction add/remove event. */
   onReaction?(
     event: ZulipReactionEvent,
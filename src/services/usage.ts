@@ -0,0 +1,56 @@
+import type { Service, ServiceContext } from "./types.js";
+import type { ZulipMessage } from "../zulip.js";
+import { replyRecipient, sendMessage } from "../zulip.js";
+import { getUsageTotals } from "../db.js";
+import { formatCost, formatTokens } from "../dashboards/usage.js";
+import { htmlToMarkdown } from "../html-to-markdown.js";
+
+const PERIODS: Array<{ title: string; since: string }> = [
+  { title: "Today", since: "start of day" },
+  { title: "Last 7 days", since: "-7 days" },
+  { title: "Last 30 days", since: "-30 days" },
+];
+
+function renderPersonalUsage(msg: ZulipMessage): string {
+  const lines = [
+    `**Claude usage for ${msg.sender_full_name}**`,
+    "",
+    "| Period | Calls | Failed | Input | Output | Cost |",
+    "|---|---:|---:|---:|---:|---:|",
+  ];
+  for (const period of PERIODS) {
+    // Grouped by user name, but filtered to one user id → at most one row
+    const [row] = getUsageTotals("user", period.since, msg.sender_id);
+    lines.push(
+      row
+        ? `| ${period.title} | ${row.calls} | ${row.failures} | ${formatTokens(row.input_tokens)} | ${formatTokens(row.output_tokens)} | ${formatCost(row.cost_usd)} |`
+        : `| ${period.title} | 0 | 0 | 0 | 0 | ${formatCost(0)} |`,
+    );
+  }
+  return lines.join("\n");
+}
+
+// ── Service definition ───────────────────────────────────────────
+
+const usage: Service = {
+  name: "usage",
+  description: "Claude token and cost accounting",
+  defaultEnabled: true,
+  commands: [
+    { usage: "usage", description: "Show your own Claude usage and cost" },
+  ],
+
+  async onMessage(msg: ZulipMessage, ctx: ServiceContext): Promise<boolean> {
+    const text = htmlToMarkdown(msg.content).replace(/@\S+/g, "").trim();
+    if (!/^usage$/i.test(text)) return false;
+
+    await sendMessage(
+      ctx.client,
+      replyRecipient(msg, ctx.botUserId),
+      renderPersonalUsage(msg),
+    );
+    return true;
+  },
+};
+
+export default usage;
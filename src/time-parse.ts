@@ -0,0 +1,245 @@
+/**
+ * Small natural-language time parsing for commands, e.g.
+ * `summarize since yesterday`, `digest add weekly fri 5pm` or
+ * `remind me tomorrow 9am`. Times are interpreted in UTC.
+ */
+
+const UNIT_MS: Record<string, number> = {
+  m: 60_000,
+  min: 60_000,
+  mins: 60_000,
+  minute: 60_000,
+  minutes: 60_000,
+  h: 3_600_000,
+  hr: 3_600_000,
+  hrs: 3_600_000,
+  hour: 3_600_000,
+  hours: 3_600_000,
+  d: 86_400_000,
+  day: 86_400_000,
+  days: 86_400_000,
+  w: 604_800_000,
+  week: 604_800_000,
+  weeks: 604_800_000,
+};
+
+export const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+function startOfDay(date: Date): Date {
+  const d = new Date(date);
+  d.setUTCHours(0, 0, 0, 0);
+  return d;
+}
+
+/** Parse "90m", "2 hours", "3d" etc. into milliseconds. */
+export function parseDuration(text: string): number | null {
+  const m = /^(\d+(?:\.\d+)?)\s*([a-z]+)$/i.exec(text.trim());
+  if (!m) return null;
+  const unit = UNIT_MS[m[2].toLowerCase()];
+  return unit ? parseFloat(m[1]) * unit : null;
+}
+
+/**
+ * Parse a point in the past: an ISO date or date-time, "today",
+ * "yesterday", a weekday ("monday" = the most recent one), or a duration
+ * back from now ("3 days ago", "2h"). Returns null if not understood.
+ */
+export function parsePastTime(text: string, now = new Date()): Date | null {
+  const t = text.trim().toLowerCase();
+
+  const iso = /^(\d{4}-\d{2}-\d{2})(?:[t ](\d{2}:\d{2}(?::\d{2})?)z?)?$/.exec(t);
+  if (iso) {
+    const date = new Date(`${iso[1]}T${iso[2] ?? "00:00"}Z`);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  if (t === "today") return startOfDay(now);
+  if (t === "yesterday") return new Date(startOfDay(now).getTime() - UNIT_MS.day);
+
+  const weekday = WEEKDAYS.indexOf(t.replace(/^last\s+/, ""));
+  if (weekday >= 0) {
+    const back = (now.getUTCDay() - weekday + 7) % 7 || 7;
+    return new Date(startOfDay(now).getTime() - back * UNIT_MS.day);
+  }
+
+  const ms = parseDuration(t.replace(/\s+ago$/, ""));
+  return ms === null ? null : new Date(now.getTime() - ms);
+}
+
+/**
+ * Parse a point in the future: "in 2h", "tomorrow 9am", "tomorrow at 9",
+ * "monday at 14:00", "next monday" (never today), "at 5pm" (today, or
+ * tomorrow if that has passed), an ISO date with an optional time, or a
+ * Zulip global time (`<time:2026-01-05T09:00:00Z>`). A bare hour needs
+ * "at" before it. A day without a time means 09:00. Returns null if not
+ * understood or not in the future.
+ */
+export function parseFutureTime(text: string, now = new Date()): Date | null {
+  const t = text.trim().toLowerCase();
+
+  const global = /^<time:([^>]+)>$/.exec(t);
+  if (global) {
+    const date = new Date(global[1].toUpperCase());
+    return !isNaN(date.getTime()) && date > now ? date : null;
+  }
+
+  const relative = /^in\s+(.+)$/.exec(t);
+  if (relative) {
+    const ms = parseDuration(relative[1]);
+    return ms === null || ms <= 0 ? null : new Date(now.getTime() + ms);
+  }
+
+  // "[next] [day] [at] [time]", day and time each optional
+  const all = t.split(/\s+/);
+  const next = all[0] === "next";
+  // "at 9" is a time of day; a bare "9" alone isn't
+  const clock = (word: string) =>
+    parseTimeOfDay(word) ??
+    (all.includes("at") && /^\d{1,2}$/.test(word) && Number(word) < 24
+      ? { hour: Number(word), minute: 0 }
+      : null);
+  const words = all.slice(next ? 1 : 0).filter((w) => w !== "at" && w !== "on");
+  let dayWord: string | undefined;
+  let time: { hour: number; minute: number } | null;
+  if (words.length === 2) {
+    dayWord = words[0];
+    time = clock(words[1]);
+    if (!time) return null;
+  } else if (words.length === 1) {
+    time = clock(words[0]);
+    if (!time) dayWord = words[0];
+  } else {
+    return null;
+  }
+  if (next && (dayWord === undefined || dayWord === "today" || dayWord === "tomorrow")) {
+    return null;
+  }
+
+  let day: Date;
+  if (dayWord === undefined) {
+    day = startOfDay(now);
+  } else if (dayWord === "today") {
+    day = startOfDay(now);
+  } else if (dayWord === "tomorrow") {
+    day = new Date(startOfDay(now).getTime() + UNIT_MS.day);
+  } else if (/^\d{4}-\d{2}-\d{2}$/.test(dayWord)) {
+    day = new Date(`${dayWord}T00:00Z`);
+    if (isNaN(day.getTime())) return null;
+  } else {
+    const weekday =
+      dayWord.length >= 3 ? WEEKDAYS.findIndex((d) => d.startsWith(dayWord)) : -1;
+    if (weekday < 0) return null;
+    const ahead = (weekday - now.getUTCDay() + 7) % 7 || (next ? 7 : 0);
+    day = new Date(startOfDay(now).getTime() + ahead * UNIT_MS.day);
+  }
+
+  const { hour, minute } = time ?? { hour: 9, minute: 0 };
+  let when = new Date(day.getTime() + hour * UNIT_MS.h + minute * UNIT_MS.m);
+  if (when <= now) {
+    // "at 5pm" after 5pm means tomorrow; "monday" on a Monday afternoon, next week
+    if (dayWord === undefined) when = new Date(when.getTime() + UNIT_MS.day);
+    else if (WEEKDAYS.some((d) => d.startsWith(dayWord))) when = new Date(when.getTime() + UNIT_MS.week);
+    else return null;
+  }
+  return when;
+}
+
+// ── Recurring schedules ──────────────────────────────────────────
+
+/** A daily or weekly time of day, in UTC. */
+export interface Schedule {
+  period: "daily" | "weekly";
+  /** 0 = Sunday; weekly schedules only. */
+  weekday?: number;
+  hour: number;
+  minute: number;
+}
+
+/** Parse "9:30", "09:00", "9am", "5:15pm" into hour and minute. */
+export function parseTimeOfDay(text: string): { hour: number; minute: number } | null {
+  const m = /^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/i.exec(text.trim());
+  if (!m || (!m[2] && !m[3])) return null;
+  let hour = Number(m[1]);
+  const minute = Number(m[2] ?? 0);
+  const meridiem = m[3]?.toLowerCase();
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem === "pm" ? 12 : 0);
+  }
+  if (hour > 23 || minute > 59) return null;
+  return { hour, minute };
+}
+
+/**
+ * Parse "daily [time]" or "weekly [weekday] [time]", e.g. "daily 9:00"
+ * or "weekly fri 5pm". Defaults to 09:00 UTC, and Monday for weekly.
+ */
+export function parseSchedule(text: string): Schedule | null {
+  const [period, ...rest] = text.trim().toLowerCase().split(/\s+/);
+  if (period !== "daily" && period !== "weekly") return null;
+
+  let weekday: number | undefined;
+  if (period === "weekly") {
+    weekday = 1;
+    const day =
+      rest[0]?.length >= 3 ? WEEKDAYS.findIndex((d) => d.startsWith(rest[0])) : -1;
+    if (day >= 0) {
+      weekday = day;
+      rest.shift();
+    }
+  }
+
+  if (rest.length > 1) return null;
+  const time = rest.length === 1 ? parseTimeOfDay(rest[0]) : { hour: 9, minute: 0 };
+  if (!time) return null;
+  return { period, weekday, ...time };
+}
+
+/**
+ * Parse a recurrence as people write it: "every day at 9am", "every
+ * monday 14:00", "daily", "weekly on fri at 5pm". Returns null unless
+ * the text starts with "every", "daily" or "weekly".
+ */
+export function parseRecurrence(text: string): Schedule | null {
+  const words = text
+    .trim()
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((w) => w !== "at" && w !== "on");
+  if (words[0] === "every") {
+    const unit = words[1];
+    if (unit === "day") return parseSchedule(["daily", ...words.slice(2)].join(" "));
+    if (unit === "week") return parseSchedule(["weekly", ...words.slice(2)].join(" "));
+    return parseSchedule(["weekly", ...words.slice(1)].join(" "));
+  }
+  return parseSchedule(words.join(" "));
+}
+
+/** Canonical text form of a schedule; `parseSchedule` reads it back. */
+export function formatSchedule(s: Schedule): string {
+  const time = `${String(s.hour).padStart(2, "0")}:${String(s.minute).padStart(2, "0")}`;
+  return s.period === "weekly"
+    ? `weekly ${WEEKDAYS[s.weekday ?? 1].slice(0, 3)} ${time}`
+    : `daily ${time}`;
+}
+
+/** The first time the schedule fires strictly after `after`. */
+export function nextOccurrence(s: Schedule, after: Date): Date {
+  const next = new Date(after);
+  next.setUTCHours(s.hour, s.minute, 0, 0);
+  if (s.period === "weekly") {
+    const ahead = ((s.weekday ?? 1) - next.getUTCDay() + 7) % 7;
+    next.setUTCDate(next.getUTCDate() + ahead);
+  }
+  while (next <= after) {
+    next.setUTCDate(next.getUTCDate() + (s.period === "weekly" ? 7 : 1));
+  }
+  return next;
+}
@@ -1,6 +1,9 @@
 import { tool, createSdkMcpServer } from "@anthropic-ai/claude-agent-sdk";
 import { z } from "zod/v4";
+import type { Config } from "./config.js";
 import type { ZulipClient } from "./zulip.js";
+import { uploadFile } from "./zulip.js";
+import type { WriteAction } from "./approvals.js";
 
 function text(data: unknown) {
   return {
@@ -10,11 +13,26 @@ function text(data: unknown) {
   };
 }
 
+/** Full (MCP-prefixed) names of the tools that modify the organization. */
+export const ZULIP_WRITE_TOOLS = [
+  "zulip_create_channel",
+  "zulip_create_topic",
+  "zulip_subscribe_users",
+  "zulip_create_channel_folder",
+  "zulip_update_channel_folder",
+  "zulip_move_channel_to_folder",
+].map((name) => `mcp__zulip__${name}`);
+
 /**
  * Create an MCP server that exposes Zulip API tools to Claude.
  * The tools give Claude read access to channels, users, topics, and messages.
+ * Write tools go through `approveWrite`; without one they are refused.
  */
-export function createZulipMcpServer(client: ZulipClient) {
+export function createZulipMcpServer(
+  client: ZulipClient,
+  config: Config,
+  approveWrite?: (action: WriteAction) => Promise<unknown>,
+) {
   const listChannels = tool(
     "zulip_list_channels",
     "List all channels (streams) in the Zulip organization, with their descriptions and subscriber counts.",
@@ -216,18 +234,43 @@ export function createZulipMcpServer(client: ZulipClient) {
       text(await client.callEndpoint(`/users/${user_id}/status`, "GET")),
   );
 
-  // ── Write tools (require confirmed: true) ──────────────────────
+  const uploadFileTool = tool(
+    "zulip_upload_file",
+    "Upload a file (a patch, CSV, diagram, long log excerpt, ...) to Zulip and get a markdown link to include in your answer. Use this instead of pasting very long content inline. Uploads are only visible to people who can see the message linking them.",
+    {
+      filename: z
+        .string()
+        .describe("File name including extension, e.g. 'fix.patch' or 'report.csv'"),
+      content: z.string().describe("The file content"),
+      encoding: z
+        .enum(["utf-8", "base64"])
+        .optional()
+        .describe("How `content` is encoded (default utf-8; use base64 for binary files such as images)"),
+    },
+    async ({ filename, content, encoding }) => {
+      const data =
+        encoding === "base64" ? Buffer.from(content, "base64") : content;
+      const url = await uploadFile(config, filename, data);
+      return text({ url, markdown: `[${filename}](${url})` });
+    },
+  );
 
-  const CONFIRM_MSG =
-    "REFUSED: confirmed must be true. You MUST first describe the action to the user and only set confirmed=true after the user explicitly replies with confirmation (e.g. 'yes', 'do it', 'go ahead') in the conversation context.";
+  // ── Write tools (require approval) ─────────────────────────────
+
+  /** Run a write action through the approver, or refuse if there is none. */
+  async function guarded(action: WriteAction) {
+    if (!approveWrite) {
+      return text({ error: "REFUSED: write operations are not available here." });
+    }
+    return text(await approveWrite(action));
+  }
+
+  const APPROVAL_NOTE =
+    "The bot posts a confirmation card and only performs the action after the requesting user approves it with a reaction; the tool returns once approved, rejected or expired.";
 
   const createChannel = tool(
     "zulip_create_channel",
-    [
-      "WRITE OPERATION — Create a new channel (stream) in the organization.",
-      "REQUIRES CONFIRMATION: Before calling this tool, you MUST describe what you plan to create and ask the user to confirm.",
-      "Only set confirmed=true after the user has explicitly confirmed in the conversation.",
-    ].join(" "),
+    `WRITE OPERATION — Create a new channel (stream) in the organization. ${APPROVAL_NOTE}`,
     {
       name: z.string().describe("Name for the new channel"),
       description: z
@@ -238,82 +281,65 @@ export function createZulipMcpServer(client: ZulipClient) {
         .boolean()
         .optional()
         .describe("Whether the channel is private (default: false)"),
-      confirmed: z
-        .boolean()
-        .describe(
-          "Must be true. Only set after user explicitly confirms in the conversation.",
-        ),
-    },
-    async ({ name, description, is_private, confirmed }) => {
-      if (!confirmed) return text({ error: CONFIRM_MSG });
-      return text(
-        await client.callEndpoint("/users/me/subscriptions", "POST", {
-          subscriptions: JSON.stringify([
-            { name, description: description ?? "" },
-          ]),
-          invite_only: is_private ? "true" : "false",
-        }),
-      );
     },
+    async ({ name, description, is_private }) =>
+      guarded({
+        tool: "zulip_create_channel",
+        summary: `Create ${is_private ? "private " : ""}channel #${name}`,
+        params: { name, description, is_private },
+        execute: () =>
+          client.callEndpoint("/users/me/subscriptions", "POST", {
+            subscriptions: JSON.stringify([
+              { name, description: description ?? "" },
+            ]),
+            invite_only: is_private ? "true" : "false",
+          }),
+      }),
   );
 
   const createTopic = tool(
     "zulip_create_topic",
-    [
-      "WRITE OPERATION — Create a new topic in an existing channel by sending an initial message.",
-      "REQUIRES CONFIRMATION: Before calling this tool, you MUST describe the channel, topic name, and initial message to the user and ask them to confirm.",
-      "Only set confirmed=true after the user has explicitly confirmed in the conversation.",
-    ].join(" "),
+    `WRITE OPERATION — Create a new topic in an existing channel by sending an initial message. ${APPROVAL_NOTE}`,
     {
       channel: z.string().describe("The channel/stream name"),
       topic: z.string().describe("The new topic name"),
       content: z.string().describe("The initial message content (markdown)"),
-      confirmed: z
-        .boolean()
-        .describe(
-          "Must be true. Only set after user explicitly confirms in the conversation.",
-        ),
-    },
-    async ({ channel, topic, content, confirmed }) => {
-      if (!confirmed) return text({ error: CONFIRM_MSG });
-      return text(
-        await client.messages.send({
-          to: channel,
-          type: "stream",
-          subject: topic,
-          content,
-        }),
-      );
     },
+    async ({ channel, topic, content }) =>
+      guarded({
+        tool: "zulip_create_topic",
+        summary: `Create topic #${channel} > ${topic}`,
+        params: { channel, topic, content },
+        execute: () =>
+          client.messages.send({
+            to: channel,
+            type: "stream",
+            subject: topic,
+            content,
+          }),
+      }),
   );
 
   const subscribeUsers = tool(
     "zulip_subscribe_users",
-    [
-      "WRITE OPERATION — Subscribe one or more users to a channel by their email addresses.",
-      "REQUIRES CONFIRMATION: Before calling this tool, you MUST list the users and target channel and ask the user to confirm.",
-      "Only set confirmed=true after the user has explicitly confirmed in the conversation.",
-    ].join(" "),
+    `WRITE OPERATION — Subscribe one or more users to a channel by their email addresses. ${APPROVAL_NOTE}`,
     {
       channel: z.string().describe("The channel/stream name"),
       emails: z
         .array(z.string())
         .describe("Email addresses of users to subscribe"),
-      confirmed: z
-        .boolean()
-        .describe(
-          "Must be true. Only set after user explicitly confirms in the conversation.",
-        ),
-    },
-    async ({ channel, emails, confirmed }) => {
-      if (!confirmed) return text({ error: CONFIRM_MSG });
-      return text(
-        await client.callEndpoint("/users/me/subscriptions", "POST", {
-          subscriptions: JSON.stringify([{ name: channel }]),
-          principals: JSON.stringify(emails),
-        }),
-      );
     },
+    async ({ channel, emails }) =>
+      guarded({
+        tool: "zulip_subscribe_users",
+        summary: `Subscribe ${emails.length} user(s) to #${channel}`,
+        params: { channel, emails },
+        execute: () =>
+          client.callEndpoint("/users/me/subscriptions", "POST", {
+            subscriptions: JSON.stringify([{ name: channel }]),
+            principals: JSON.stringify(emails),
+          }),
+      }),
   );
 
   // ── Channel folder tools ────────────────────────────────────────
@@ -327,40 +353,30 @@ export function createZulipMcpServer(client: ZulipClient) {
 
   const createChannelFolder = tool(
     "zulip_create_channel_folder",
-    [
-      "WRITE OPERATION — Create a new channel folder to group related channels.",
-      "REQUIRES CONFIRMATION: Before calling this tool, you MUST describe the folder name and description to the user and ask them to confirm.",
-      "Only set confirmed=true after the user has explicitly confirmed in the conversation.",
-    ].join(" "),
+    `WRITE OPERATION — Create a new channel folder to group related channels. ${APPROVAL_NOTE}`,
     {
       name: z.string().describe("Name for the new folder"),
       description: z
         .string()
         .optional()
         .describe("Folder description"),
-      confirmed: z
-        .boolean()
-        .describe(
-          "Must be true. Only set after user explicitly confirms in the conversation.",
-        ),
     },
-    async ({ name, description, confirmed }) => {
-      if (!confirmed) return text({ error: CONFIRM_MSG });
+    async ({ name, description }) => {
       const params: Record<string, string> = { name };
       if (description) params.description = description;
-      return text(
-        await client.callEndpoint("/channel_folders/create", "POST", params),
-      );
+      return guarded({
+        tool: "zulip_create_channel_folder",
+        summary: `Create channel folder "${name}"`,
+        params,
+        execute: () =>
+          client.callEndpoint("/channel_folders/create", "POST", params),
+      });
     },
   );
 
   const updateChannelFolder = tool(
     "zulip_update_channel_folder",
-    [
-      "WRITE OPERATION — Update a channel folder's name, description, or archive status.",
-      "REQUIRES CONFIRMATION: Before calling this tool, you MUST describe the changes to the user and ask them to confirm.",
-      "Only set confirmed=true after the user has explicitly confirmed in the conversation.",
-    ].join(" "),
+    `WRITE OPERATION — Update a channel folder's name, description, or archive status. ${APPROVAL_NOTE}`,
     {
       folder_id: z.number().describe("The folder's numeric ID"),
       name: z.string().optional().describe("New folder name"),
@@ -369,35 +385,29 @@ export function createZulipMcpServer(client: ZulipClient) {
         .boolean()
         .optional()
         .describe("Set true to archive, false to unarchive"),
-      confirmed: z
-        .boolean()
-        .describe(
-          "Must be true. Only set after user explicitly confirms in the conversation.",
-        ),
     },
-    async ({ folder_id, name, description, is_archived, confirmed }) => {
-      if (!confirmed) return text({ error: CONFIRM_MSG });
+    async ({ folder_id, name, description, is_archived }) => {
       const params: Record<string, unknown> = {};
       if (name !== undefined) params.name = name;
       if (description !== undefined) params.description = description;
       if (is_archived !== undefined) params.is_archived = is_archived;
-      return text(
-        await client.callEndpoint(
-          `/channel_folders/${folder_id}`,
-          "PATCH",
-          params,
-        ),
-      );
+      return guarded({
+        tool: "zulip_update_channel_folder",
+        summary: `Update channel folder ${folder_id}`,
+        params: { folder_id, ...params },
+        execute: () =>
+          client.callEndpoint(
+            `/channel_folders/${folder_id}`,
+            "PATCH",
+            params,
+          ),
+      });
     },
   );
 
   const moveChannelToFolder = tool(
     "zulip_move_channel_to_folder",
-    [
-      "WRITE OPERATION — Move a channel into a folder (or remove from folder by setting folder_id to null).",
-      "REQUIRES CONFIRMATION: Before calling this tool, you MUST describe which channel and folder to the user and ask them to confirm.",
-      "Only set confirmed=true after the user has explicitly confirmed in the conversation.",
-    ].join(" "),
+    `WRITE OPERATION — Move a channel into a folder (or remove from folder by setting folder_id to null). ${APPROVAL_NOTE}`,
     {
       stream_id: z.number().describe("The channel's numeric ID"),
       folder_id: z
@@ -406,20 +416,20 @@ export function createZulipMcpServer(client: ZulipClient) {
         .describe(
           "The folder ID to move the channel into, or null to remove from folder",
         ),
-      confirmed: z
-        .boolean()
-        .describe(
-          "Must be true. Only set after user explicitly confirms in the conversation.",
-        ),
-    },
-    async ({ stream_id, folder_id, confirmed }) => {
-      if (!confirmed) return text({ error: CONFIRM_MSG });
-      return text(
-        await client.callEndpoint(`/streams/${stream_id}`, "PATCH", {
-          channel_folder_id: folder_id,
-        }),
-      );
     },
+    async ({ stream_id, folder_id }) =>
+      guarded({
+        tool: "zulip_move_channel_to_folder",
+        summary:
+          folder_id === null
+            ? `Remove channel ${stream_id} from its folder`
+            : `Move channel ${stream_id} into folder ${folder_id}`,
+        params: { stream_id, folder_id },
+        execute: () =>
+          client.callEndpoint(`/streams/${stream_id}`, "PATCH", {
+            channel_folder_id: folder_id,
+          }),
+      }),
   );
 
   return createSdkMcpServer({
@@ -446,7 +456,8 @@ export function createZulipMcpServer(client: ZulipClient) {
       getCustomEmoji,
       getUserStatus,
       getChannelFolders,
-      // Write tools (require confirmation)
+      uploadFileTool,
+      // Write tools (require approval)
       createChannel,
       createTopic,
       subscribeUsers,
@@ -1,18 +1,50 @@
 import zulipInit from "zulip-js";
 import type { Config } from "./config.js";
+import { splitMarkdown } from "./markdown-split.js";
 
 // zulip-js doesn't ship types, so we define the shapes we use.
 
-export interface ZulipMessage {
+export interface ZulipDisplayRecipient {
   id: number;
+  email: string;
+  full_name: string;
+}
+
+interface ZulipMessageBase {
+  id: number;
+  sender_id: number;
   sender_email: string;
   sender_full_name: string;
-  type: "stream" | "private";
-  display_recipient: string;
   subject: string;
   content: string;
+  /**
+   * "text/html" for rendered content, "text/x-markdown" for messages
+   * fetched with `apply_markdown: false`.
+   */
+  content_type?: string;
+  /** Unix time (seconds) the message was sent. */
+  timestamp: number;
+}
+
+export interface ZulipStreamMessage extends ZulipMessageBase {
+  type: "stream";
+  /** Channel name. */
+  display_recipient: string;
 }
 
+export interface ZulipPrivateMessage extends ZulipMessageBase {
+  type: "private";
+  /** Every participant of the (group) DM, including the sender and the bot. */
+  display_recipient: ZulipDisplayRecipient[];
+}
+
+export type ZulipMessage = ZulipStreamMessage | ZulipPrivateMessage;
+
+/** Where a message is posted: a channel topic or a (group) DM conversation. */
+export type ZulipRecipient =
+  | { type: "stream"; channel: string; topic: string }
+  | { type: "private"; userIds: number[] };
+
 export interface ZulipMessageEvent {
   type: "message";
   id: number;
@@ -31,18 +63,41 @@ export interface ZulipReactionEvent {
   reaction_type: string;
 }
 
+export interface ZulipUpdateMessageEvent {
+  type: "update_message";
+  id: number;
+  /** Null for edits made by the server itself (e.g. link previews). */
+  user_id: number | null;
+  message_id: number;
+  /** Present only when the content changed (not for topic moves). */
+  rendered_content?: string;
+  /** The bot's flags on the edited message, e.g. "mentioned". */
+  flags?: string[];
+}
+
+export interface ZulipDeleteMessageEvent {
+  type: "delete_message";
+  id: number;
+  message_type: "stream" | "private";
+  /** Set unless the queue was registered with bulk_message_deletion. */
+  message_id?: number;
+  message_ids?: number[];
+}
+
 export interface ZulipClient {
   messages: {
     retrieve(params: {
-      narrow: Array<{ operator: string; operand: string }>;
-      anchor: string;
+      narrow: Array<{ operator: string; operand: string | number[] }>;
+      anchor: string | number;
       num_before: number;
       num_after: number;
-    }): Promise<{ messages: ZulipMessage[]; result: string }>;
+      include_anchor?: boolean;
+      apply_markdown?: boolean;
+    }): Promise<{ messages: ZulipMessage[]; result: string; found_oldest?: boolean }>;
     send(params: {
-      to: string;
+      to: string | number[];
       type: string;
-      subject: string;
+      subject?: string;
       content: string;
     }): Promise<{ id: number; result: string; msg: string }>;
   };
@@ -80,6 +135,8 @@ export interface ZulipClient {
       events: Array<
         | ZulipMessageEvent
         | ZulipReactionEvent
+        | ZulipUpdateMessageEvent
+        | ZulipDeleteMessageEvent
         | { type: string; id: number }
       >;
       result: string;
@@ -110,69 +167,359 @@ export async function initZulip(
   };
 }
 
-export async function fetchTopicMessages(
+/**
+ * Where a reply to `msg` should go: the same channel topic, or the same
+ * DM conversation (all participants except the bot).
+ */
+export function replyRecipient(
+  msg: ZulipMessage,
+  botUserId: number,
+): ZulipRecipient {
+  if (msg.type === "stream") {
+    return { type: "stream", channel: msg.display_recipient, topic: msg.subject };
+  }
+  const userIds = msg.display_recipient
+    .map((r) => r.id)
+    .filter((id) => id !== botUserId);
+  return { type: "private", userIds: userIds.length > 0 ? userIds : [botUserId] };
+}
+
+/**
+ * Channel/topic pair identifying a conversation in DB tables. DMs have no
+ * channel, so they are keyed by their sorted participant ids instead.
+ */
+export function conversationKey(
+  recipient: ZulipRecipient,
+): { channel: string; topic: string } {
+  if (recipient.type === "stream") {
+    return { channel: recipient.channel, topic: recipient.topic };
+  }
+  const ids = [...recipient.userIds].sort((a, b) => a - b);
+  return { channel: "", topic: `dm:${ids.join(",")}` };
+}
+
+/** Build the `messages.send` addressing params for a recipient. */
+export function sendTarget(
+  recipient: ZulipRecipient,
+): { to: string | number[]; type: string; subject?: string } {
+  if (recipient.type === "stream") {
+    return { to: recipient.channel, type: "stream", subject: recipient.topic };
+  }
+  return { to: recipient.userIds, type: "private" };
+}
+
+/**
+ * Whether `userId` is subscribed to `channel`. False when the channel
+ * doesn't exist or the bot can't see it.
+ */
+export async function isSubscribed(
   client: ZulipClient,
+  userId: number,
   channel: string,
-  topic: string,
+): Promise<boolean> {
+  const stream = await client
+    .callEndpoint("/get_stream_id", "GET", { stream: channel })
+    .catch(() => undefined);
+  if (stream?.result !== "success") return false;
+  const res = await client
+    .callEndpoint(`/users/${userId}/subscriptions/${stream.stream_id as number}`, "GET")
+    .catch(() => undefined);
+  return res?.result === "success" && res.is_subscribed === true;
+}
+
+/**
+ * Names of the public channels the bot can see, or null if the lookup
+ * failed (then every channel counts as private).
+ */
+export async function publicChannels(client: ZulipClient): Promise<Set<string> | null> {
+  const res = await client.callEndpoint("/streams", "GET").catch(() => undefined);
+  if (res?.result !== "success") return null;
+  const streams = res.streams as Array<{ name: string; invite_only: boolean }>;
+  return new Set(streams.filter((s) => !s.invite_only).map((s) => s.name));
+}
+
+/** A whole channel, all topics included (for reading history only). */
+export interface ZulipChannelScope {
+  type: "channel";
+  channel: string;
+}
+
+/** Build the narrow that selects a recipient's conversation. */
+function narrowFor(
+  recipient: ZulipRecipient | ZulipChannelScope,
+): Array<{ operator: string; operand: string | number[] }> {
+  if (recipient.type === "channel") {
+    return [{ operator: "channel", operand: recipient.channel }];
+  }
+  if (recipient.type === "stream") {
+    return [
+      { operator: "channel", operand: recipient.channel },
+      { operator: "topic", operand: recipient.topic },
+    ];
+  }
+  return [{ operator: "dm", operand: recipient.userIds }];
+}
+
+/**
+ * Fetch the most recent messages of a channel topic or DM conversation,
+ * as markdown source (see `messageMarkdown`).
+ */
+export async function fetchRecentMessages(
+  client: ZulipClient,
+  recipient: ZulipRecipient,
   count: number,
 ): Promise<ZulipMessage[]> {
   const response = await client.messages.retrieve({
-    narrow: [
-      { operator: "channel", operand: channel },
-      { operator: "topic", operand: topic },
-    ],
+    narrow: narrowFor(recipient),
     anchor: "newest",
     num_before: count,
     num_after: 0,
+    apply_markdown: false,
   });
   return response.messages;
 }
 
+/**
+ * Upload a file to Zulip and return its `/user_uploads/...` URL, usable
+ * as a markdown link target. zulip-js can't send named file parts, so
+ * this posts the multipart form itself.
+ */
+export async function uploadFile(
+  config: Config,
+  filename: string,
+  data: string | Buffer,
+): Promise<string> {
+  const form = new FormData();
+  const bytes = typeof data === "string" ? data : new Uint8Array(data);
+  form.append("filename", new Blob([bytes]), filename);
+  const auth = Buffer.from(`${config.zulipUsername}:${config.zulipApiKey}`).toString("base64");
+  const response = await fetch(`${config.zulipRealm}/api/v1/user_uploads`, {
+    method: "POST",
+    headers: { Authorization: `Basic ${auth}` },
+    body: form,
+  });
+  const res = (await response.json()) as {
+    result: string;
+    msg?: string;
+    url?: string;
+    uri?: string;
+  };
+  const url = res.url ?? res.uri;
+  if (res.result !== "success" || !url) {
+    throw new Error(`Upload of ${filename} failed: ${res.msg ?? `HTTP ${response.status}`}`);
+  }
+  return url;
+}
+
+/** Zulip caps how many messages one fetch may return. */
+const HISTORY_PAGE_SIZE = 1000;
+
+/**
+ * Page backwards through a conversation's (or channel's) history, oldest
+ * first, as markdown source (see `messageMarkdown`). Stops after `limit`
+ * messages or once messages are older than `since`.
+ */
+export async function fetchHistory(
+  client: ZulipClient,
+  recipient: ZulipRecipient | ZulipChannelScope,
+  opts: { limit: number; since?: Date },
+): Promise<ZulipMessage[]> {
+  const sinceTs = opts.since ? opts.since.getTime() / 1000 : 0;
+  const collected: ZulipMessage[] = [];
+  let anchor: string | number = "newest";
+
+  while (collected.length < opts.limit) {
+    const response = await client.messages.retrieve({
+      narrow: narrowFor(recipient),
+      anchor,
+      num_before: Math.min(HISTORY_PAGE_SIZE, opts.limit - collected.length),
+      num_after: 0,
+      include_anchor: anchor === "newest",
+      apply_markdown: false,
+    });
+    if (response.result !== "success") break;
+    const page = response.messages.filter((m) => m.timestamp >= sinceTs);
+    collected.unshift(...page);
+    if (
+      response.found_oldest ||
+      response.messages.length === 0 ||
+      page.length < response.messages.length
+    ) {
+      break;
+    }
+    anchor = response.messages[0].id;
+  }
+  return collected.slice(-opts.limit);
+}
+
 export interface StreamingMessage {
-  /** Update with streamed text (flushes every ~40 new words). */
+  /** Id of the Zulip message being streamed into. */
+  readonly messageId: number;
+  /** Show a queue position instead of "Thinking..."; null once running. */
+  setQueuePosition(position: number | null): void;
+  /** Record a tool call and show it in the status line. */
+  toolUsed(name: string, input: unknown): void;
+  /** Update with streamed text (flushes every ~40 new words, at most once a second). */
   update(content: string): void;
-  /** Finalize with the complete answer. Handles long-message splitting. */
-  finalize(content: string): Promise<void>;
-  /** Delete the message (used on error or empty question). */
-  cancel(): Promise<void>;
+  /**
+   * Finalize with the complete answer. Handles long-message splitting;
+   * resolves with the ids of the messages the answer continues in.
+   */
+  finalize(content: string): Promise<number[]>;
+  /**
+   * Delete the message (used on error or empty question). A reused
+   * message gets its previous content back instead, under `note` if given.
+   */
+  cancel(note?: string): Promise<void>;
 }
 
+const TOOL_ICONS: Record<string, string> = {
+  Grep: "🔍",
+  Glob: "🗂️",
+  Read: "📄",
+  Bash: "💻",
+  WebSearch: "🌐",
+  WebFetch: "🌐",
+};
+
+/** One-line description of a tool call, e.g. "🔍 Grep `foo` in src/". */
+function describeToolUse(name: string, input: unknown): string {
+  const args = (input ?? {}) as Record<string, unknown>;
+  const code = (v: unknown) => {
+    const s = String(v).replace(/\s+/g, " ").replace(/`/g, "'");
+    return `\`${s.length > 60 ? `${s.slice(0, 59)}…` : s}\``;
+  };
+
+  if (name.startsWith("mcp__zulip__")) {
+    return `💬 Zulip ${name.slice("mcp__zulip__zulip_".length).replace(/_/g, " ")}`;
+  }
+
+  const icon = TOOL_ICONS[name] ?? "🔧";
+  switch (name) {
+    case "Grep":
+      return `${icon} Grep ${code(args.pattern)}${args.path ? ` in ${args.path}` : ""}`;
+    case "Glob":
+      return `${icon} Glob ${code(args.pattern)}`;
+    case "Read":
+      return `${icon} Read ${args.file_path}`;
+    case "Bash":
+      return `${icon} Bash ${code(args.command)}`;
+    case "WebSearch":
+      return `${icon} Search ${code(args.query)}`;
+    case "WebFetch":
+      return `${icon} Fetch ${args.url}`;
+    default:
+      return `${icon} ${name}`;
+  }
+}
+
+/** How many of the latest tool calls the status line shows. */
+const STATUS_TOOL_COUNT = 3;
+
 /**
  * Post a ":loading: Thinking..." status message that transitions
- * into a live-streaming response. Shows elapsed seconds until the
- * first text arrives, then progressively updates with Claude's output.
+ * into a live-streaming response. Shows elapsed seconds and the latest
+ * tool calls until the first text arrives, then progressively updates
+ * with Claude's output. With `toolSummary`, the final message ends with a
+ * collapsed spoiler listing every tool used. With `messageId`, an existing
+ * bot message is reused (and overwritten) instead of posting a new one;
+ * `extraMessageIds` are its continuation messages, reused for the new
+ * answer's extra chunks and deleted if it needs fewer. If the message
+ * can't be edited any more, a new one is posted instead. With `upload`, a final answer too long for one message first has its
+ * largest code blocks uploaded as files (see `uploadLargeCodeBlocks`).
  */
 export async function startStreamingMessage(
   client: ZulipClient,
-  channel: string,
-  topic: string,
+  recipient: ZulipRecipient,
+  opts: {
+    toolSummary?: boolean;
+    messageId?: number;
+    extraMessageIds?: number[];
+    upload?: (filename: string, content: string) => Promise<string>;
+  } = {},
 ): Promise<StreamingMessage> {
-  const startTime = Date.now();
+  let startTime = Date.now();
   let finalized = false;
   let textStarted = false;
+  let queuePosition: number | null = null;
+  const toolLines: string[] = [];
+  let streamedText = "";
 
-  const res = await client.messages.send({
-    to: channel,
-    type: "stream",
-    subject: topic,
-    content: ":loading: Thinking...",
-  });
-  const messageId = res.id;
+  let messageId: number | undefined;
+  // What a reused message said before, restored by cancel()
+  let previousContent: string | undefined;
+  if (opts.messageId !== undefined) {
+    const existing = await client
+      .callEndpoint(`/messages/${opts.messageId}`, "GET", { apply_markdown: false })
+      .catch(() => undefined);
+    // The message may be gone or past the edit window; then post a new one
+    const reused = await client
+      .callEndpoint(`/messages/${opts.messageId}`, "PATCH", {
+        content: ":loading: Thinking...",
+      })
+      .then((res) => res.result === "success", () => false);
+    if (reused) {
+      messageId = opts.messageId;
+      previousContent = typeof existing?.raw_content === "string" ? existing.raw_content : "";
+    }
+  }
+  if (messageId === undefined) {
+    const res = await client.messages.send({
+      ...sendTarget(recipient),
+      content: ":loading: Thinking...",
+    });
+    messageId = res.id;
+  }
 
-  // Elapsed-seconds timer (runs until first text arrives)
-  const spinnerTimer = setInterval(() => {
-    if (finalized || textStarted) return;
+  function statusLine(): string {
+    if (queuePosition !== null) {
+      return `:loading: Queued, position ${queuePosition}...`;
+    }
     const elapsed = Math.round((Date.now() - startTime) / 1000);
+    const status = `:loading: Thinking... (${elapsed}s)`;
+    if (toolLines.length === 0) return status;
+    return `${status}\n${toolLines.slice(-STATUS_TOOL_COUNT).join(" · ")}`;
+  }
+
+  function patchStatus() {
     client
       .callEndpoint(`/messages/${messageId}`, "PATCH", {
-        content: `:loading: Thinking... (${elapsed}s)`,
+        content: statusLine(),
       })
       .catch(() => {});
+  }
+
+  // Elapsed-seconds timer (runs until first text arrives)
+  const spinnerTimer = setInterval(() => {
+    if (finalized || textStarted || queuePosition !== null) return;
+    patchStatus();
   }, 2000);
 
-  // Word-count-based updates (flush every ~40 new words)
+  function setQueuePosition(position: number | null) {
+    if (finalized || textStarted || position === queuePosition) return;
+    queuePosition = position;
+    // Count "Thinking..." seconds from when the request actually starts
+    if (position === null) startTime = Date.now();
+    patchStatus();
+  }
+
+  function toolUsed(name: string, input: unknown) {
+    if (finalized) return;
+    toolLines.push(describeToolUse(name, input));
+    if (textStarted) {
+      // Mid-answer tool call: show it under the text streamed so far
+      latestContent = `${streamedText}\n\n:loading: ${toolLines[toolLines.length - 1]}`;
+      scheduleFlush();
+    }
+  }
+
+  // Word-count-based updates (flush every ~40 new words), at most one
+  // PATCH per MIN_FLUSH_INTERVAL_MS; tool calls share the same flush
   const WORD_FLUSH_THRESHOLD = 40;
+  const MIN_FLUSH_INTERVAL_MS = 1000;
   let lastFlushedWordCount = 0;
+  let lastFlushAt = 0;
+  let flushTimer: NodeJS.Timeout | undefined;
   let latestContent: string | null = null;
 
   function countWords(text: string): number {
@@ -181,7 +528,8 @@ export async function startStreamingMessage(
 
   function flush() {
     if (finalized || latestContent === null) return;
-    lastFlushedWordCount = countWords(latestContent);
+    lastFlushedWordCount = countWords(streamedText);
+    lastFlushAt = Date.now();
     const content = latestContent;
     latestContent = null;
     client
@@ -189,6 +537,20 @@ export async function startStreamingMessage(
       .catch(() => {});
   }
 
+  /** Flush now, or once the interval since the last flush has passed. */
+  function scheduleFlush() {
+    if (flushTimer) return;
+    const wait = lastFlushAt + MIN_FLUSH_INTERVAL_MS - Date.now();
+    if (wait <= 0) {
+      flush();
+      return;
+    }
+    flushTimer = setTimeout(() => {
+      flushTimer = undefined;
+      flush();
+    }, wait);
+  }
+
   function update(content: string) {
     if (finalized) return;
     if (!textStarted) {
@@ -196,99 +558,159 @@ export async function startStreamingMessage(
       clearInterval(spinnerTimer);
     }
     latestContent = content;
+    streamedText = content;
     if (countWords(content) - lastFlushedWordCount >= WORD_FLUSH_THRESHOLD) {
-      flush();
+      scheduleFlush();
     }
   }
 
-  async function finalize(content: string) {
+  async function finalize(answer: string) {
     finalized = true;
     clearInterval(spinnerTimer);
+    clearTimeout(flushTimer);
 
-    if (content.length <= MAX_MESSAGE_LENGTH) {
-      // Fits in one message — update the existing one
-      await client
-        .callEndpoint(`/messages/${messageId}`, "PATCH", { content })
-        .catch(() => {});
-    } else {
-      // Split: first chunk replaces the streaming message, rest are new messages
-      const chunks = splitMessage(content, MAX_MESSAGE_LENGTH);
-      await client
-        .callEndpoint(`/messages/${messageId}`, "PATCH", {
-          content: chunks[0],
-        })
-        .catch(() => {});
-      for (let i = 1; i < chunks.length; i++) {
-        await client.messages.send({
-          to: channel,
-          type: "stream",
-          subject: topic,
-          content: chunks[i],
-        });
+    let content = answer;
+    if (opts.toolSummary && toolLines.length > 0) {
+      content += [
+        "",
+        "",
+        `\`\`\`spoiler Tools used (${toolLines.length})`,
+        ...toolLines.map((l) => `- ${l}`),
+        "```",
+      ].join("\n");
+    }
+
+    if (content.length > MAX_MESSAGE_LENGTH && opts.upload) {
+      content = await uploadLargeCodeBlocks(content, MAX_MESSAGE_LENGTH, opts.upload);
+    }
+
+    // First chunk replaces the streaming message, the rest go into the
+    // old answer's continuation messages, then new ones
+    const chunks =
+      content.length <= MAX_MESSAGE_LENGTH ? [content] : splitMarkdown(content, MAX_MESSAGE_LENGTH);
+    await client
+      .callEndpoint(`/messages/${messageId}`, "PATCH", { content: chunks[0] })
+      .catch(() => {});
+    // A fresh message (the old one couldn't be edited) starts a fresh set
+    const reusable = previousContent !== undefined ? [...(opts.extraMessageIds ?? [])] : [];
+    const extraIds: number[] = [];
+    for (const chunk of chunks.slice(1)) {
+      const reuse = reusable.shift();
+      const patched =
+        reuse !== undefined &&
+        (await client
+          .callEndpoint(`/messages/${reuse}`, "PATCH", { content: chunk })
+          .then((res) => res.result === "success", () => false));
+      if (patched) {
+        extraIds.push(reuse);
+      } else {
+        const res = await client.messages.send({ ...sendTarget(recipient), content: chunk });
+        extraIds.push(res.id);
       }
     }
+    for (const id of reusable) {
+      await client.callEndpoint(`/messages/${id}`, "DELETE").catch(() => {});
+    }
+    return extraIds;
   }
 
-  async function cancel() {
+  async function cancel(note?: string) {
     finalized = true;
     clearInterval(spinnerTimer);
+    clearTimeout(flushTimer);
+    if (previousContent === undefined) {
+      await client
+        .callEndpoint(`/messages/${messageId}`, "DELETE")
+        .catch(() => {});
+      return;
+    }
+    const previous = previousContent || "*(The previous answer couldn't be restored.)*";
     await client
-      .callEndpoint(`/messages/${messageId}`, "DELETE")
+      .callEndpoint(`/messages/${messageId}`, "PATCH", {
+        content: note ? `${note}\n\n---\n${previous}` : previous,
+      })
       .catch(() => {});
   }
 
-  return { update, finalize, cancel };
+  return { messageId, setQueuePosition, toolUsed, update, finalize, cancel };
 }
 
 const MAX_MESSAGE_LENGTH = 9500;
 
-export async function sendMessage(
-  client: ZulipClient,
-  channel: string,
-  topic: string,
-  content: string,
-): Promise<void> {
-  const chunks = splitMessage(content, MAX_MESSAGE_LENGTH);
-  for (const chunk of chunks) {
-    await client.messages.send({
-      to: channel,
-      type: "stream",
-      subject: topic,
-      content: chunk,
-    });
-  }
-}
+/** Code blocks shorter than this are never worth uploading. */
+const MIN_UPLOAD_BLOCK_LENGTH = 2000;
+
+/** Fenced blocks Zulip renders specially rather than as code. */
+const NON_CODE_FENCES = new Set(["spoiler", "quote", "math", "latex"]);
+
+const FENCE_EXTENSIONS: Record<string, string> = {
+  python: "py",
+  typescript: "ts",
+  javascript: "js",
+  shell: "sh",
+  bash: "sh",
+  console: "txt",
+  text: "txt",
+  patch: "diff",
+  yaml: "yml",
+  markdown: "md",
+  rust: "rs",
+  ruby: "rb",
+};
+
+const FENCED_BLOCK_RE = /^(`{3,}|~{3,})([^\n]*)\n([\s\S]*?)\n\1[ \t]*$/gm;
 
 /**
- * Split a message at paragraph boundaries if it exceeds maxLen.
- * Falls back to hard-splitting if a single paragraph is too long.
+ * Replace the largest fenced code blocks with links to uploaded files
+ * until `content` fits in `maxLen` (or no block is large enough).
+ * Upload failures leave the block in place for the splitter.
  */
-function splitMessage(content: string, maxLen: number): string[] {
-  if (content.length <= maxLen) {
-    return [content];
-  }
+async function uploadLargeCodeBlocks(
+  content: string,
+  maxLen: number,
+  upload: (filename: string, content: string) => Promise<string>,
+): Promise<string> {
+  let result = content;
+  let fileNumber = 0;
+  const failed = new Set<string>();
 
-  const chunks: string[] = [];
-  let remaining = content;
+  while (result.length > maxLen) {
+    const blocks = [...result.matchAll(FENCED_BLOCK_RE)]
+      .map((m) => ({ whole: m[0], lang: m[2].trim().split(/\s+/)[0].toLowerCase(), body: m[3] }))
+      .filter((b) => !NON_CODE_FENCES.has(b.lang))
+      .filter((b) => b.whole.length >= MIN_UPLOAD_BLOCK_LENGTH && !failed.has(b.whole))
+      .sort((a, b) => b.whole.length - a.whole.length);
+    const block = blocks[0];
+    if (!block) break;
 
-  while (remaining.length > maxLen) {
-    // Try to split at a paragraph boundary (double newline)
-    let splitIdx = remaining.lastIndexOf("\n\n", maxLen);
-    if (splitIdx <= 0) {
-      // Fall back to single newline
-      splitIdx = remaining.lastIndexOf("\n", maxLen);
+    fileNumber++;
+    const ext = FENCE_EXTENSIONS[block.lang] ?? (/^[a-z0-9]{1,8}$/.test(block.lang) ? block.lang : "txt");
+    const filename = `answer-${fileNumber}.${ext}`;
+    try {
+      const url = await upload(filename, block.body);
+      const lines = block.body.split("\n").length;
+      result = result.replace(
+        block.whole,
+        `📎 [${filename}](${url}) *(${lines} lines, too long to show inline)*`,
+      );
+    } catch (err) {
+      console.error(`Failed to upload code block as ${filename}:`, err);
+      failed.add(block.whole);
     }
-    if (splitIdx <= 0) {
-      // Hard split at maxLen
-      splitIdx = maxLen;
-    }
-    chunks.push(remaining.slice(0, splitIdx).trimEnd());
-    remaining = remaining.slice(splitIdx).trimStart();
   }
+  return result;
+}
 
-  if (remaining.length > 0) {
-    chunks.push(remaining);
+export async function sendMessage(
+  client: ZulipClient,
+  recipient: ZulipRecipient,
+  content: string,
+): Promise<void> {
+  const chunks = splitMarkdown(content, MAX_MESSAGE_LENGTH);
+  for (const chunk of chunks) {
+    await client.messages.send({
+      ...sendTarget(recipient),
+      content: chunk,
+    });
   }
-
-  return chunks;
 }
@@ -0,0 +1,56 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { htmlToMarkdown, messageMarkdown } from "../src/html-to-markdown.js";
+
+/**
+ * Each `<name>.html` is a message as Zulip renders it; `<name>.md` is the
+ * expected markdown with mentions kept, and the optional
+ * `<name>.stripped.md` the expected markdown with mentions stripped (the
+ * default, used for command parsing).
+ */
+const FIXTURES = new URL("./fixtures/html-to-markdown/", import.meta.url);
+
+function readFixture(file: string): string {
+  return readFileSync(new URL(file, FIXTURES), "utf8").replace(/\n$/, "");
+}
+
+for (const file of readdirSync(FIXTURES).filter((f) => f.endsWith(".html"))) {
+  const name = file.slice(0, -".html".length);
+  const html = readFixture(file);
+
+  test(`${name}: converts to markdown`, () => {
+    assert.equal(htmlToMarkdown(html, { mentions: "keep" }), readFixture(`${name}.md`));
+  });
+
+  if (existsSync(new URL(`${name}.stripped.md`, FIXTURES))) {
+    test(`${name}: strips mentions by default`, () => {
+      assert.equal(htmlToMarkdown(html), readFixture(`${name}.stripped.md`));
+    });
+  }
+}
+
+test("messageMarkdown: passes raw content through", () => {
+  const content = "@**Alice** see `<b>` in #**dev>deploy**";
+  assert.equal(messageMarkdown({ content, content_type: "text/x-markdown" }), content);
+});
+
+test("messageMarkdown: converts rendered content", () => {
+  assert.equal(
+    messageMarkdown({ content: "<p><strong>hi</strong></p>", content_type: "text/html" }),
+    "**hi**",
+  );
+});
+
+test("quotes: strip drops each quote and keeps the text between them", () => {
+  const html = [
+    "<blockquote>\n<p>First quote</p>\n</blockquote>",
+    "<p>Reply to the first.</p>",
+    "<blockquote>\n<p>Second quote</p>\n</blockquote>",
+    "<p>Reply to the second.</p>",
+  ].join("\n");
+  assert.equal(
+    htmlToMarkdown(html, { quotes: "strip" }),
+    "Reply to the first.\n\nReply to the second.",
+  );
+});
@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { splitMarkdown } from "../src/markdown-split.js";
+
+function lines(n: number, text: string): string {
+  return Array.from({ length: n }, (_, i) => `${text} ${i}.`).join("\n");
+}
+
+function assertFits(chunks: string[], maxLen: number): void {
+  for (const chunk of chunks) {
+    assert.ok(chunk.length <= maxLen, `chunk of ${chunk.length} > ${maxLen}:\n${chunk}`);
+  }
+}
+
+test("short content is returned as is", () => {
+  assert.deepEqual(splitMarkdown("hello", 100), ["hello"]);
+});
+
+test("code fences are closed and reopened with their language", () => {
+  const content = `\`\`\`ts\n${lines(40, "const line")}\n\`\`\``;
+  const chunks = splitMarkdown(content, 300);
+  assert.ok(chunks.length > 1);
+  assertFits(chunks, 300);
+  for (const [i, chunk] of chunks.entries()) {
+    const body = i === 0 ? chunk : chunk.slice(chunk.indexOf("\n\n") + 2);
+    assert.match(body, /^```ts\n[\s\S]*\n```$/);
+  }
+});
+
+test("split tables repeat their header", () => {
+  const rows = Array.from({ length: 30 }, (_, i) => `| row ${i} | value ${i} |`);
+  const content = ["| Name | Value |", "| --- | --- |", ...rows].join("\n");
+  const chunks = splitMarkdown(content, 250);
+  assert.ok(chunks.length > 1);
+  assertFits(chunks, 250);
+  for (const chunk of chunks) assert.ok(chunk.includes("| Name | Value |\n| --- | --- |"));
+});
+
+test("a code block inside a spoiler doesn't close the spoiler", () => {
+  const content = [
+    "```spoiler Details",
+    lines(6, "A line of spoiler text that goes on for a while"),
+    "",
+    "```py",
+    "print('hi')",
+    "```",
+    "",
+    "Text after the code block.",
+    lines(6, "More spoiler text that goes on for a while"),
+    "```",
+  ].join("\n");
+  const chunks = splitMarkdown(content, 400);
+  assert.equal(chunks.length, 2);
+  assertFits(chunks, 400);
+  // Both halves are whole spoilers; the text after the code stays inside
+  assert.match(chunks[0], /^```spoiler Details\n[\s\S]*```py\nprint\('hi'\)\n```\n```$/);
+  assert.match(chunks[1], /\n\n```spoiler Details\nText after the code block\.[\s\S]*\n```$/);
+  assert.ok(!chunks.some((c) => c.includes("```\n```\n")), "no stray empty code block");
+});
+
+test("a table header near the limit doesn't hang", () => {
+  const header = `| ${"x".repeat(150)} |\n| --- |`;
+  const rows = Array.from({ length: 10 }, (_, i) => `| row ${i} |`);
+  const chunks = splitMarkdown([header, ...rows].join("\n"), 180);
+  assertFits(chunks, 180);
+  assert.ok(chunks.join("\n").includes("row 9"));
+});
+
+test("nested fences near the limit don't hang", () => {
+  const open = `\`\`\`\`spoiler ${"t".repeat(90)}`;
+  const content = [open, "```py", lines(20, "x = 1 #"), "```", "````"].join("\n");
+  const chunks = splitMarkdown(content, 150);
+  assertFits(chunks, 150);
+  assert.ok(chunks.join("\n").includes("x = 1 # 19."));
+});